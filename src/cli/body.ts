@@ -0,0 +1,99 @@
+import { readFileSync } from 'node:fs'
+import { basename, extname } from 'node:path'
+import { randomBytes } from 'node:crypto'
+
+/**
+ * Multipart form-data body with the Content-Type header naming its boundary
+ */
+export type MultipartBody = {
+  body: Buffer
+  contentType: string
+}
+
+/**
+ * Content types for common file extensions in form uploads
+ */
+const FILE_CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.zip': 'application/zip'
+}
+
+/**
+ * Reads a request body from a file, or from stdin when the path is -
+ * @param path - File path or -
+ * @returns Body bytes
+ */
+export function readBodyFile(path: string): Buffer {
+  try {
+    return readFileSync(path === '-' ? 0 : path)
+  } catch {
+    throw new Error(
+      path === '-' ? 'Cannot read body from stdin' : `Cannot read body file "${path}"`
+    )
+  }
+}
+
+/**
+ * Builds one part of a multipart body from a curl-style field: name=value for a
+ * text field, or name=@path[;type=mime] for a file
+ * @param field - Form field
+ * @param boundary - Multipart boundary
+ * @returns Encoded part
+ */
+function encodePart(field: string, boundary: string): Buffer {
+  const separator = field.indexOf('=')
+  if (separator <= 0) {
+    throw new Error(`Invalid form field "${field}": expected name=value or name=@file`)
+  }
+
+  const name = field.substring(0, separator).replace(/"/g, '%22')
+  const value = field.substring(separator + 1)
+
+  if (!value.startsWith('@')) {
+    return Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+    )
+  }
+
+  const [path = '', ...options] = value.substring(1).split(';')
+  const type =
+    options.find(option => option.startsWith('type='))?.substring(5) ??
+    FILE_CONTENT_TYPES[extname(path).toLowerCase()] ??
+    'application/octet-stream'
+  const filename = basename(path).replace(/"/g, '%22')
+
+  return Buffer.concat([
+    Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="${name}"; filename="${filename}"\r\nContent-Type: ${type}\r\n\r\n`
+    ),
+    readBodyFile(path),
+    Buffer.from('\r\n')
+  ])
+}
+
+/**
+ * Builds a multipart/form-data body from curl-style form fields
+ * @param fields - Fields as name=value or name=@path[;type=mime]
+ * @returns Body and Content-Type header
+ */
+export function buildMultipartBody(fields: string[]): MultipartBody {
+  const boundary = `----SwiftBenchBoundary${randomBytes(12).toString('hex')}`
+
+  return {
+    body: Buffer.concat([
+      ...fields.map(field => encodePart(field, boundary)),
+      Buffer.from(`--${boundary}--\r\n`)
+    ]),
+    contentType: `multipart/form-data; boundary=${boundary}`
+  }
+}
@@ -0,0 +1,133 @@
+import { writeFileSync } from 'node:fs'
+
+import type { BenchConfig, CapacityConfig, CapacityResult, CapacityTrial } from '../../types.js'
+import { findCapacity } from '../../core/capacity/search.js'
+import { resolveSocketTarget } from '../../core/http/target.js'
+import { EXIT_CODES } from '../../constants.js'
+import { info, error, success, warn, printBanner } from '../printer.js'
+import { checkReachability } from './run.js'
+
+/**
+ * ANSI color codes
+ */
+const COLORS = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  cyan: '\x1b[36m'
+} as const
+
+/**
+ * Formats a trial as a one-line progress message
+ * @param trial - Completed trial
+ * @param percentile - SLO percentile label
+ * @returns Progress message
+ */
+function formatTrial(trial: CapacityTrial, percentile: string): string {
+  const verdict = trial.passed
+    ? `${COLORS.green}pass${COLORS.reset}`
+    : `${COLORS.red}fail${COLORS.reset} (${trial.reason ?? ''})`
+  return `  ${trial.rate.toLocaleString()} req/s: ${percentile} ${trial.latency.toFixed(2)}ms | ${verdict}`
+}
+
+/**
+ * Runs a capacity search and reports every trial plus the capacity found
+ * @param config - Benchmark configuration used for every trial
+ * @param capacity - Capacity search options
+ * @returns Exit code
+ */
+export async function capacityCommand(
+  config: BenchConfig,
+  capacity: CapacityConfig
+): Promise<number> {
+  printBanner()
+
+  const target = resolveSocketTarget(config)
+  const check = await checkReachability(target.url, target)
+
+  if (!check.reachable) {
+    error(`Target not reachable: ${check.error}`)
+    return EXIT_CODES.ERROR
+  }
+
+  const { percentile, maxLatency } = capacity.slo
+  success(`Target reachable (HTTP ${check.statusCode})`)
+  info(`Searching capacity of ${config.url}`)
+  info(
+    `SLO ${percentile} < ${maxLatency}ms | max error rate ${((capacity.maxErrorRate ?? 0) * 100).toFixed(2)}% | ${config.duration ?? 10}s trials`
+  )
+
+  try {
+    const result = await findCapacity(target, capacity, trial => {
+      info(formatTrial(trial, percentile))
+    })
+
+    printTrialTable(result)
+
+    const output = JSON.stringify(
+      {
+        url: result.url,
+        capacity: result.capacity,
+        slo: result.slo,
+        maxErrorRate: result.maxErrorRate
+      },
+      null,
+      2
+    )
+    process.stdout.write(`${output}\n`)
+
+    if (config.outputFile !== undefined) {
+      writeFileSync(config.outputFile, JSON.stringify(result, null, 2), 'utf-8')
+      info(`Report saved to ${config.outputFile}`)
+    }
+
+    if (result.capacity === null) {
+      warn('No trial met the SLO')
+      return EXIT_CODES.THRESHOLD_EXCEEDED
+    }
+
+    return EXIT_CODES.SUCCESS
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error'
+    error(message)
+    return EXIT_CODES.ERROR
+  }
+}
+
+/**
+ * Prints every trial of a capacity search in the order it ran
+ * @param result - Capacity result
+ */
+function printTrialTable(result: CapacityResult): void {
+  const percentile = result.slo.percentile.toUpperCase()
+
+  process.stdout.write(`\n${COLORS.bold}${COLORS.cyan}Capacity Trials${COLORS.reset}\n`)
+  process.stdout.write(`${COLORS.dim}${'─'.repeat(80)}${COLORS.reset}\n`)
+  process.stdout.write(
+    `${COLORS.dim}${'#'.padEnd(4)} ${'Target'.padStart(10)} ${'RPS'.padStart(10)} ${percentile.padStart(10)} ${'Err%'.padStart(8)}  Result${COLORS.reset}\n`
+  )
+  process.stdout.write(`${COLORS.dim}${'─'.repeat(80)}${COLORS.reset}\n`)
+
+  result.trials.forEach((trial, index) => {
+    const verdict = trial.passed
+      ? `${COLORS.green}pass${COLORS.reset}`
+      : `${COLORS.red}fail${COLORS.reset} ${COLORS.dim}${trial.reason ?? ''}${COLORS.reset}`
+    const marker = trial.rate === result.capacity ? `${COLORS.green}*${COLORS.reset}` : ' '
+
+    process.stdout.write(
+      `${String(index + 1).padEnd(4)} ${trial.rate.toLocaleString().padStart(10)} ${Math.round(trial.rps).toLocaleString().padStart(10)} ${`${trial.latency.toFixed(2)}ms`.padStart(10)} ${(trial.errorRate * 100).toFixed(2).padStart(7)}% ${marker}${verdict}\n`
+    )
+  })
+
+  process.stdout.write(`${COLORS.dim}${'─'.repeat(80)}${COLORS.reset}\n`)
+
+  if (result.capacity !== null) {
+    process.stdout.write(
+      `${COLORS.bold}Capacity:${COLORS.reset} ${COLORS.green}${result.capacity.toLocaleString()} req/s${COLORS.reset} at ${result.slo.percentile} < ${result.slo.maxLatency}ms\n\n`
+    )
+  } else {
+    process.stdout.write('\n')
+  }
+}
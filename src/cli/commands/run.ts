@@ -1,9 +1,16 @@
 import { lookup } from 'node:dns/promises'
 import { writeFileSync } from 'node:fs'
-import { request } from 'undici'
 
 import type { BenchConfig, BenchResult, Reporter, DevToolsInfo } from '../../types.js'
 import { runBenchmark } from '../../core/orchestrator/orchestrator.js'
+import { http2Request } from '../../core/http/http2-client.js'
+import { probeTls } from '../../core/http/tls.js'
+import { resolveSocketTarget } from '../../core/http/target.js'
+import { resolveProxy } from '../../core/http/proxy.js'
+import { RequestTemplate } from '../../core/template/template.js'
+import { loadDataFile } from '../../core/data/feeder.js'
+import { HttpClient } from '../../core/http/client.js'
+import type { HttpResponse } from '../../core/http/client.js'
 import { createConsoleReporter } from '../../reporters/console.js'
 import { createJsonReporter } from '../../reporters/json.js'
 import { createHtmlReporter } from '../../reporters/html.js'
@@ -30,36 +37,128 @@ function getReporter(format: string): Reporter {
 }
 
 /**
- * Checks if a URL is reachable and collects info
+ * Creates a single-connection HTTP/1.1 client for requests made outside the run. It
+ * is the benchmark's own client, so the proxy, TLS options and Unix socket path are
+ * applied exactly as during the run.
+ * @param url - URL to request
+ * @param config - Benchmark configuration
+ * @returns Client for the URL's origin
+ */
+function createClient(url: URL, config: BenchConfig): HttpClient {
+  return new HttpClient({
+    baseUrl: url.origin,
+    connections: 1,
+    timeout: config.timeout ?? DEFAULT_TIMEOUT_MS,
+    pipelining: 1,
+    keepAlive: true,
+    churn: null,
+    tls: config.tls ?? null,
+    socketPath: config.socketPath ?? null,
+    proxy: resolveProxy({ ...config, url: url.href })
+  })
+}
+
+/**
+ * Renders the URL, headers and body templates the way the run renders a request,
+ * as virtual user 0 with sequence 0 and the first data row, so requests made before
+ * the run do not send {{...}} placeholders as written
+ * @param config - Benchmark configuration
+ * @returns Configuration with the URL, headers and body rendered
+ */
+function renderSampleRequest(config: BenchConfig): BenchConfig {
+  const row = config.data !== undefined ? (loadDataFile(config.data.file)[0] ?? null) : null
+  const rendered = new RequestTemplate(
+    config.url,
+    config.headers ?? {},
+    config.body ?? null
+  ).render({ vu: 0, seq: 0, variables: null, row })
+
+  return {
+    ...config,
+    url: rendered.path,
+    headers: rendered.headers,
+    body: rendered.body ?? undefined
+  }
+}
+
+/**
+ * Sends a HEAD request, over HTTP/2 if requested
+ * @param url - URL to request
+ * @param config - Benchmark configuration
+ * @returns Status code and headers
+ */
+async function sendHead(
+  url: string,
+  config: BenchConfig
+): Promise<Pick<HttpResponse, 'statusCode' | 'headers'>> {
+  const timeout = config.timeout ?? DEFAULT_TIMEOUT_MS
+
+  if (config.http2) {
+    return http2Request(
+      url,
+      'HEAD',
+      {},
+      null,
+      timeout,
+      config.tls ?? null,
+      config.socketPath ?? null
+    )
+  }
+
+  const target = new URL(url)
+  const client = createClient(target, config)
+  try {
+    return await client.execute('HEAD', `${target.pathname}${target.search}`, {}, null)
+  } finally {
+    await client.close()
+  }
+}
+
+/**
+ * Checks if a URL is reachable and collects info, including a probe of the TLS
+ * session for HTTPS targets. With HTTP/2 the check also fails when the server does
+ * not speak HTTP/2. With a socket path the check goes over the Unix socket. A
+ * templated URL is checked as rendered for the run's first request.
  * @param url - URL to check
- * @param timeout - Timeout in milliseconds
+ * @param config - Benchmark configuration, for the timeout, HTTP/2, TLS and socket options
  * @returns Reachability status and devtools info
  */
-async function checkReachability(
+export async function checkReachability(
   url: string,
-  timeout: number
+  config: BenchConfig
 ): Promise<{
   reachable: boolean
   statusCode?: number
   error?: string
   info?: DevToolsInfo
 }> {
+  const target = renderSampleRequest({ ...config, url }).url
+
   try {
-    const hostname = new URL(url).hostname
-    const ip = await lookup(hostname)
-      .then(r => r.address)
-      .catch(() => null)
+    const hostname = new URL(target).hostname
+    const ip =
+      config.socketPath === undefined
+        ? await lookup(hostname)
+            .then(r => r.address)
+            .catch(() => null)
+        : null
 
     const start = process.hrtime.bigint()
-    const response = await request(url, {
-      method: 'HEAD',
-      headersTimeout: timeout,
-      bodyTimeout: timeout
-    })
+    const response = await sendHead(target, config)
     const end = process.hrtime.bigint()
     const handshakeTime = Number((end - start) / 1000000n) // Approximate
 
-    await response.body.dump()
+    // The target answered, so a failed probe only leaves out the TLS details
+    const tls =
+      new URL(target).protocol === 'https:'
+        ? await probeTls(target, {
+            tls: config.tls ?? null,
+            http2: Boolean(config.http2),
+            timeout: config.timeout ?? DEFAULT_TIMEOUT_MS,
+            socketPath: config.socketPath ?? null,
+            proxy: resolveProxy(config)
+          }).catch(() => null)
+        : null
 
     const info: DevToolsInfo = {
       ip,
@@ -67,7 +166,8 @@ async function checkReachability(
       poweredBy: (response.headers['x-powered-by'] as string) || null,
       requestId:
         ((response.headers['x-request-id'] || response.headers['request-id']) as string) || null,
-      handshakeTime
+      handshakeTime,
+      tls
     }
 
     return { reachable: true, statusCode: response.statusCode, info }
@@ -79,6 +179,9 @@ async function checkReachability(
       if (err.message.includes('ENOTFOUND')) {
         return { reachable: false, error: 'Host not found - check URL' }
       }
+      if (err.message.includes('ENOENT')) {
+        return { reachable: false, error: 'Socket not found - check the socket path' }
+      }
       if (err.message.includes('ETIMEDOUT') || err.name === 'TimeoutError') {
         return { reachable: false, error: 'Connection timed out' }
       }
@@ -138,12 +241,19 @@ async function runInspectMode(config: BenchConfig): Promise<void> {
 
   printBanner()
   info('Inspect Mode: Running single request...')
+  if (config.socketPath !== undefined) {
+    info(`Connecting through Unix socket ${config.socketPath}`)
+  }
+  const proxy = resolveProxy(config)
+  if (proxy !== null) {
+    info(`Connecting through proxy ${proxy.url}`)
+  }
 
   const url = new URL(config.url)
   const method = config.method || 'GET'
   const headers = config.headers || {}
   
-  if (config.body && !headers['content-type']) {
+  if (config.body && !Object.keys(headers).some(key => key.toLowerCase() === 'content-type')) {
     headers['content-type'] = 'application/json'
   }
 
@@ -157,27 +267,24 @@ async function runInspectMode(config: BenchConfig): Promise<void> {
   
   if (config.body) {
     process.stdout.write('\n')
-    const bodyStr = typeof config.body === 'string' ? config.body : JSON.stringify(config.body, null, 2)
+    const bodyStr =
+      typeof config.body === 'string'
+        ? config.body
+        : `${COLORS.dim}<${config.body.length.toLocaleString()} byte body>${COLORS.reset}`
     process.stdout.write(`${bodyStr}\n`)
   }
 
+  const client = createClient(url, config)
   try {
     const start = process.hrtime.bigint()
-    const response = await request(config.url, {
-      method: config.method || 'GET',
-      headers: config.headers,
-      body: config.body,
-      headersTimeout: config.timeout,
-      bodyTimeout: config.timeout
-    })
-    
-    // Buffer the body
-    let responseBody = ''
-    try {
-      responseBody = await response.body.text()
-    } catch {
-      responseBody = '(binary or empty)'
-    }
+    const response = await client.execute(
+      method,
+      `${url.pathname}${url.search}`,
+      headers,
+      config.body ?? null,
+      true
+    )
+    const responseBody = response.body?.toString('utf-8') ?? ''
     
     const end = process.hrtime.bigint()
     const duration = Number((end - start) / 1000000n)
@@ -216,6 +323,8 @@ async function runInspectMode(config: BenchConfig): Promise<void> {
     const message = err instanceof Error ? err.message : 'Unknown error'
     error(`Request failed: ${message}`)
     process.exit(1)
+  } finally {
+    await client.close()
   }
 }
 
@@ -227,13 +336,15 @@ async function runInspectMode(config: BenchConfig): Promise<void> {
 export async function runCommand(config: BenchConfig): Promise<number> {
   printBanner()
 
+  const target = resolveSocketTarget(config)
+
   if (config.inspect) {
-    await runInspectMode(config)
+    await runInspectMode(renderSampleRequest(target))
     return EXIT_CODES.SUCCESS
   }
 
   info(`Checking ${config.url}...`)
-  const check = await checkReachability(config.url, config.timeout ?? DEFAULT_TIMEOUT_MS)
+  const check = await checkReachability(target.url, target)
 
   if (!check.reachable) {
     error(`Target not reachable: ${check.error}`)
@@ -242,12 +353,19 @@ export async function runCommand(config: BenchConfig): Promise<number> {
 
   success(`Target reachable (HTTP ${check.statusCode})`)
   info(`Benchmarking ${config.url}`)
-  info(
-    `${config.connections ?? 50} connections | ${config.duration ?? 10}s duration${config.rate ? ` | ${config.rate} req/s` : ''}`
-  )
+  if (config.stages !== undefined) {
+    const unit = config.stageTarget === 'connections' ? 'connections' : 'req/s'
+    info(
+      `Load profile: ${config.stages.map(stage => `${stage.duration}s → ${stage.target}`).join(', ')} ${unit}${config.arrival ? ` | open model (${config.arrival.distribution})` : ''}`
+    )
+  } else {
+    info(
+      `${config.connections ?? 50} connections | ${config.duration ?? 10}s duration${config.rate ? ` | ${config.rate} req/s` : ''}${config.arrival ? ` | open model (${config.arrival.distribution})` : ''}`
+    )
+  }
 
   try {
-    const result = await runBenchmark(config)
+    const result = await runBenchmark(target)
 
     // Attach DevTools info if requested and available
     if (config.info && check.info) {
@@ -296,7 +414,8 @@ export async function compareCommand(urls: string[], config: BenchConfig): Promi
 
   for (const url of urls) {
     info(`\nChecking ${url}...`)
-    const check = await checkReachability(url, config.timeout ?? DEFAULT_TIMEOUT_MS)
+    const target = resolveSocketTarget({ ...config, url })
+    const check = await checkReachability(target.url, target)
 
     if (!check.reachable) {
       warn(`Skipping ${url}: ${check.error}`)
@@ -307,7 +426,7 @@ export async function compareCommand(urls: string[], config: BenchConfig): Promi
     info(`Benchmarking ${url}...`)
 
     try {
-      const result = await runBenchmark({ ...config, url })
+      const result = await runBenchmark(target)
       const errorRate =
         result.requests.total > 0 ? (result.requests.failed / result.requests.total) * 100 : 0
 
@@ -1,11 +1,31 @@
-import type { BenchConfig, OutputFormat, HttpMethod } from '../types.js'
+import type {
+  BenchConfig,
+  OutputFormat,
+  HttpMethod,
+  ArrivalDistribution,
+  LoadStage,
+  StageTarget,
+  DataOrder,
+  AssertionConfig,
+  CapacityConfig,
+  LatencySlo,
+  TlsConfig
+} from '../types.js'
 import {
   DEFAULT_CONNECTIONS,
   DEFAULT_DURATION_SEC,
   DEFAULT_TIMEOUT_MS,
   DEFAULT_METHOD,
-  DEFAULT_OUTPUT_FORMAT
+  DEFAULT_OUTPUT_FORMAT,
+  DEFAULT_CAPACITY_START_RATE,
+  DEFAULT_CAPACITY_MAX_RATE,
+  DEFAULT_SUCCESS_STATUS,
+  DEFAULT_PIPELINING,
+  DEFAULT_HTTP2_MAX_STREAMS
 } from '../constants.js'
+import { readFileSync } from 'node:fs'
+
+import { readBodyFile, buildMultipartBody } from './body.js'
 
 /**
  * Parsed CLI flags
@@ -16,17 +36,50 @@ export type ParsedFlags = {
   connections: number
   duration: number
   rate: number | null
+  arrival: ArrivalDistribution | null
+  maxInFlight: number | null
   timeout: number
   rampUp: number | null
+  rampDown: number | null
   warmup: number | null
+  stages: LoadStage[] | null
+  stageTarget: StageTarget | null
+  data: string | null
+  dataOrder: DataOrder | null
   headers: Record<string, string>
   body: string | null
+  bodyFile: string | null
+  form: string[]
+  assertions: AssertionConfig | null
+  successStatus: string | null
+  pipelining: number | null
+  keepAlive: boolean
+  churn: number | null
   http2: boolean
+  http2Sessions: number | null
+  http2Streams: number | null
+  caFile: string | null
+  certFile: string | null
+  keyFile: string | null
+  insecure: boolean
+  servername: string | null
+  alpn: string[] | null
+  socketPath: string | null
+  proxy: string | null
+  proxyAuth: string | null
+  proxyEnv: boolean
+  cookies: boolean
+  cookieFile: string | null
   output: OutputFormat
   outputFile: string | null
   p99Threshold: number | null
   errorRateThreshold: number | null
   compare: boolean
+  capacity: boolean
+  slo: LatencySlo | null
+  maxErrorRate: number | null
+  startRate: number | null
+  maxRate: number | null
   help: boolean
   version: boolean
   info: boolean
@@ -42,26 +95,70 @@ SwiftBench - High-performance API benchmarking tool
 
 USAGE:
   swiftbench <url> [options]
+  swiftbench unix:<socket>:<path> [options]
   swiftbench --compare <url1> <url2> [url3...] [options]
+  swiftbench capacity <url> --slo p99<200 [options]
 
 OPTIONS:
   -c, --connections <n>    Number of concurrent connections (default: ${DEFAULT_CONNECTIONS})
   -d, --duration <n>       Test duration in seconds (default: ${DEFAULT_DURATION_SEC})
   --rate <n>               Requests per second limit
+  --arrival <dist>         Open-model arrivals at --rate: constant, poisson
+  --max-in-flight <n>      In-flight cap for open-model runs (default: connections)
   --ramp-up <n>            Ramp-up time in seconds
+  --ramp-down <n>          Ramp-down time in seconds, at the end of the run
   --warmup <n>             Warmup time in seconds
+  --stages <list>          Load profile as duration:target stages, e.g. 30s:100,2m:100,30s:0
+  --stage-target <kind>    What stage targets control: rate (default), connections
+  --data <file>            CSV or JSONL rows whose columns fill {{column}} placeholders
+  --data-order <order>     Row order: sequential (default), random, unique
   --timeout <n>            Request timeout in ms (default: ${DEFAULT_TIMEOUT_MS})
   -m, --method <method>    HTTP method (default: GET)
   -H, --header <header>    Add header (can be used multiple times)
   --body <data>            Request body
   --json <data>            JSON request body (sets Content-Type)
-  --http2                  Use HTTP/2
+  --body-file <path>       Request body from a file, or - for stdin
+  --form <field>           Multipart form field, name=value or name=@file (repeatable)
+  --pipelining <n>         Requests pipelined per HTTP/1.1 connection (default: ${DEFAULT_PIPELINING})
+  --no-keep-alive          Send Connection: close, opening a connection per request
+  --churn <n>              Open a new connection every n requests
+  --http2                  Use HTTP/2: h2 over TLS, h2c (prior knowledge) for http://
+  --http2-sessions <n>     HTTP/2 connections in total (default: one per worker)
+  --http2-streams <n>      Max concurrent streams per HTTP/2 session (default: ${DEFAULT_HTTP2_MAX_STREAMS})
+  --cacert <file>          PEM CA bundle to trust
+  --cert <file>            PEM client certificate for mutual TLS (with --key)
+  --key <file>             PEM private key of the client certificate
+  -k, --insecure           Accept invalid or self-signed server certificates
+  --servername <name>      SNI server name to send in the TLS handshake
+  --alpn <list>            ALPN protocols to offer with --http2, e.g. h2
+  --socket-path <path>     Connect to a Unix domain socket instead of the URL's host
+  --proxy <url>            Send traffic through an HTTP proxy (CONNECT for https://)
+  --proxy-auth <user:pass> Credentials for the proxy
+  --proxy-env              Use the proxy from HTTP_PROXY/HTTPS_PROXY, honoring NO_PROXY
+  --cookies                Keep a cookie jar per virtual connection
+  --cookie-file <file>     Seed the cookie jars from a Netscape cookie file (implies --cookies)
+  --success-status <list>  Statuses that count as success, e.g. 2xx,3xx,404
+                           (default: ${DEFAULT_SUCCESS_STATUS})
+  --assert-status <codes>  Fail responses whose status is not listed, e.g. 200,201
+  --assert-contains <text> Fail responses whose body does not contain text
+  --assert-matches <regex> Fail responses whose body does not match a regex
+  --assert-json <check>    Fail unless a JSON path equals a value, e.g. '$.ok=true' (repeatable)
+  --assert-header <name>   Fail responses without a header (repeatable)
+  --assert-max-size <n>    Fail responses with a body larger than n bytes
   --output <format>        Output format: console, json, html, csv
   -o <file>                Output file path
   --info                   Show detailed server/connection info
   --p99 <ms>               P99 latency threshold for CI
   --error-rate <rate>      Error rate threshold (0-1) for CI
   --compare                Compare multiple URLs (framework comparison)
+
+CAPACITY OPTIONS:
+  --slo <objective>        Latency SLO each trial must meet, e.g. p99<200 (ms)
+  --max-error-rate <rate>  Highest error rate (0-1) a trial may have (default: 0)
+  --start-rate <n>         Rate of the first trial in req/s (default: ${DEFAULT_CAPACITY_START_RATE})
+  --max-rate <n>           Highest rate to try in req/s (default: ${DEFAULT_CAPACITY_MAX_RATE})
+  -d, --duration <n>       Duration of each trial in seconds
+
   -h, --help               Show this help message
   -v, --version            Show version
 
@@ -69,12 +166,110 @@ EXAMPLES:
   swiftbench http://localhost:3000
   swiftbench http://localhost:3000 -c 200 -d 30
   swiftbench http://localhost:3000 --rate 1000 --output json -o result.json
+  swiftbench http://localhost:3000 --rate 500 --arrival poisson --max-in-flight 200
+  swiftbench http://localhost:3000 --stages 30s:100,2m:100,30s:1000,1m:100
   swiftbench http://localhost:3000/api -m POST --json '{"key": "value"}'
+  swiftbench http://localhost:3000/upload -m POST --form title=test --form file=@photo.png
+  swiftbench 'http://localhost:3000/users/{{id}}' --data users.csv --data-order unique
   swiftbench --compare http://localhost:3000 http://localhost:3001 -c 100 -d 10
+  swiftbench capacity http://localhost:3000 --slo p99<200 --max-error-rate 0.01 -d 5
 `
   process.stdout.write(help)
 }
 
+/**
+ * Parses a duration such as 30s, 2m or 1h (plain numbers are seconds)
+ * @param value - Duration string
+ * @returns Duration in seconds, or NaN if invalid
+ */
+function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)(s|m|h)?$/.exec(value.trim())
+  if (match === null) {
+    return NaN
+  }
+
+  const amount = parseFloat(match[1] ?? '')
+  switch (match[2]) {
+    case 'm':
+      return amount * 60
+    case 'h':
+      return amount * 3600
+    default:
+      return amount
+  }
+}
+
+/**
+ * Reads a PEM file given to a TLS flag
+ * @param path - File path
+ * @param flag - Flag the path was given to
+ * @returns File contents
+ */
+function readPemFile(path: string, flag: string): string {
+  try {
+    return readFileSync(path, 'utf8')
+  } catch {
+    throw new Error(`Cannot read ${flag} file "${path}"`)
+  }
+}
+
+/**
+ * Parses a load profile such as 30s:100,2m:100,30s:0
+ * @param value - Comma-separated duration:target stages
+ * @returns Load stages
+ */
+function parseStages(value: string): LoadStage[] {
+  return value.split(',').map(part => {
+    const [duration = '', target = ''] = part.split(':')
+    const stage: LoadStage = {
+      duration: parseDuration(duration),
+      target: parseFloat(target)
+    }
+
+    if (Number.isNaN(stage.duration) || Number.isNaN(stage.target)) {
+      throw new Error(`Invalid stage "${part}", expected duration:target such as 30s:100`)
+    }
+    return stage
+  })
+}
+
+/**
+ * Parses a latency SLO such as p99<200
+ * @param value - Percentile and limit in milliseconds
+ * @returns Latency SLO
+ */
+function parseSlo(value: string): LatencySlo {
+  const match = /^(p50|p75|p90|p95|p99|p999)\s*<\s*(\d+(?:\.\d+)?)$/.exec(value.trim())
+  if (match === null) {
+    throw new Error(`Invalid SLO "${value}", expected a percentile and limit such as p99<200`)
+  }
+
+  return {
+    percentile: match[1] as LatencySlo['percentile'],
+    maxLatency: parseFloat(match[2] ?? '')
+  }
+}
+
+/**
+ * Parses a JSON assertion such as $.data.ok=true. The value is read as JSON when
+ * possible and as a plain string otherwise.
+ * @param value - path=value
+ * @returns JSON path and expected value
+ */
+function parseJsonAssertion(value: string): [string, unknown] {
+  const separator = value.indexOf('=')
+  if (separator <= 0) {
+    throw new Error(`Invalid JSON assertion "${value}": expected path=value, e.g. $.ok=true`)
+  }
+
+  const expected = value.substring(separator + 1)
+  try {
+    return [value.substring(0, separator), JSON.parse(expected)]
+  } catch {
+    return [value.substring(0, separator), expected]
+  }
+}
+
 /**
  * Parses command line arguments
  * @param args - Command line arguments
@@ -87,17 +282,50 @@ export function parseFlags(args: string[]): ParsedFlags {
     connections: DEFAULT_CONNECTIONS,
     duration: DEFAULT_DURATION_SEC,
     rate: null,
+    arrival: null,
+    maxInFlight: null,
     timeout: DEFAULT_TIMEOUT_MS,
     rampUp: null,
+    rampDown: null,
     warmup: null,
+    stages: null,
+    stageTarget: null,
+    data: null,
+    dataOrder: null,
     headers: {},
     body: null,
+    bodyFile: null,
+    form: [],
+    assertions: null,
+    successStatus: null,
+    pipelining: null,
+    keepAlive: true,
+    churn: null,
     http2: false,
+    http2Sessions: null,
+    http2Streams: null,
+    caFile: null,
+    certFile: null,
+    keyFile: null,
+    insecure: false,
+    servername: null,
+    alpn: null,
+    socketPath: null,
+    proxy: null,
+    proxyAuth: null,
+    proxyEnv: false,
+    cookies: false,
+    cookieFile: null,
     output: DEFAULT_OUTPUT_FORMAT,
     outputFile: null,
     p99Threshold: null,
     errorRateThreshold: null,
     compare: false,
+    capacity: false,
+    slo: null,
+    maxErrorRate: null,
+    startRate: null,
+    maxRate: null,
     help: false,
     version: false,
     info: false,
@@ -143,6 +371,36 @@ export function parseFlags(args: string[]): ParsedFlags {
       continue
     }
 
+    if (arg === 'capacity' && i === 0) {
+      flags.capacity = true
+      i++
+      continue
+    }
+
+    if (arg === '--slo') {
+      flags.slo = parseSlo(args[++i] ?? '')
+      i++
+      continue
+    }
+
+    if (arg === '--max-error-rate') {
+      flags.maxErrorRate = parseFloat(args[++i] ?? '0')
+      i++
+      continue
+    }
+
+    if (arg === '--start-rate') {
+      flags.startRate = parseInt(args[++i] ?? '0', 10)
+      i++
+      continue
+    }
+
+    if (arg === '--max-rate') {
+      flags.maxRate = parseInt(args[++i] ?? '0', 10)
+      i++
+      continue
+    }
+
     if (arg === '-c' || arg === '--connections') {
       flags.connections = parseInt(args[++i] ?? String(DEFAULT_CONNECTIONS), 10)
       i++
@@ -161,18 +419,69 @@ export function parseFlags(args: string[]): ParsedFlags {
       continue
     }
 
+    if (arg === '--arrival') {
+      const distribution = args[++i] ?? 'constant'
+      if (distribution === 'constant' || distribution === 'poisson') {
+        flags.arrival = distribution
+      }
+      i++
+      continue
+    }
+
+    if (arg === '--max-in-flight') {
+      flags.maxInFlight = parseInt(args[++i] ?? '0', 10)
+      i++
+      continue
+    }
+
     if (arg === '--ramp-up') {
       flags.rampUp = parseInt(args[++i] ?? '0', 10)
       i++
       continue
     }
 
+    if (arg === '--ramp-down') {
+      flags.rampDown = parseInt(args[++i] ?? '0', 10)
+      i++
+      continue
+    }
+
     if (arg === '--warmup') {
       flags.warmup = parseInt(args[++i] ?? '0', 10)
       i++
       continue
     }
 
+    if (arg === '--stages') {
+      flags.stages = parseStages(args[++i] ?? '')
+      i++
+      continue
+    }
+
+    if (arg === '--stage-target') {
+      const target = args[++i] ?? 'rate'
+      if (target === 'rate' || target === 'connections') {
+        flags.stageTarget = target
+      }
+      i++
+      continue
+    }
+
+    if (arg === '--data') {
+      flags.data = args[++i] ?? null
+      i++
+      continue
+    }
+
+    if (arg === '--data-order') {
+      const order = args[++i] ?? 'sequential'
+      if (order === 'sequential' || order === 'random' || order === 'unique') {
+        flags.dataOrder = order
+      }
+      i++
+      continue
+    }
+
     if (arg === '--timeout') {
       flags.timeout = parseInt(args[++i] ?? String(DEFAULT_TIMEOUT_MS), 10)
       i++
@@ -211,12 +520,178 @@ export function parseFlags(args: string[]): ParsedFlags {
       continue
     }
 
+    if (arg === '--body-file') {
+      flags.bodyFile = args[++i] ?? null
+      i++
+      continue
+    }
+
+    if (arg === '--form') {
+      flags.form.push(args[++i] ?? '')
+      i++
+      continue
+    }
+
+    if (arg === '--success-status') {
+      flags.successStatus = args[++i] ?? null
+      i++
+      continue
+    }
+
+    if (arg === '--assert-status') {
+      flags.assertions ??= {}
+      flags.assertions.status = (args[++i] ?? '').split(',').map(code => parseInt(code, 10))
+      i++
+      continue
+    }
+
+    if (arg === '--assert-contains') {
+      flags.assertions ??= {}
+      flags.assertions.bodyContains = args[++i] ?? ''
+      i++
+      continue
+    }
+
+    if (arg === '--assert-matches') {
+      flags.assertions ??= {}
+      flags.assertions.bodyMatches = args[++i] ?? ''
+      i++
+      continue
+    }
+
+    if (arg === '--assert-json') {
+      const [path, value] = parseJsonAssertion(args[++i] ?? '')
+      flags.assertions ??= {}
+      flags.assertions.json = { ...flags.assertions.json, [path]: value }
+      i++
+      continue
+    }
+
+    if (arg === '--assert-header') {
+      flags.assertions ??= {}
+      flags.assertions.headers = [...(flags.assertions.headers ?? []), args[++i] ?? '']
+      i++
+      continue
+    }
+
+    if (arg === '--assert-max-size') {
+      flags.assertions ??= {}
+      flags.assertions.maxBodySize = parseInt(args[++i] ?? '0', 10)
+      i++
+      continue
+    }
+
+    if (arg === '--pipelining') {
+      flags.pipelining = parseInt(args[++i] ?? '0', 10)
+      i++
+      continue
+    }
+
+    if (arg === '--no-keep-alive') {
+      flags.keepAlive = false
+      i++
+      continue
+    }
+
+    if (arg === '--churn') {
+      flags.churn = parseInt(args[++i] ?? '0', 10)
+      i++
+      continue
+    }
+
     if (arg === '--http2') {
       flags.http2 = true
       i++
       continue
     }
 
+    if (arg === '--http2-sessions') {
+      flags.http2Sessions = parseInt(args[++i] ?? '0', 10)
+      i++
+      continue
+    }
+
+    if (arg === '--http2-streams') {
+      flags.http2Streams = parseInt(args[++i] ?? '0', 10)
+      i++
+      continue
+    }
+
+    if (arg === '--cacert') {
+      flags.caFile = args[++i] ?? null
+      i++
+      continue
+    }
+
+    if (arg === '--cert') {
+      flags.certFile = args[++i] ?? null
+      i++
+      continue
+    }
+
+    if (arg === '--key') {
+      flags.keyFile = args[++i] ?? null
+      i++
+      continue
+    }
+
+    if (arg === '-k' || arg === '--insecure') {
+      flags.insecure = true
+      i++
+      continue
+    }
+
+    if (arg === '--servername') {
+      flags.servername = args[++i] ?? null
+      i++
+      continue
+    }
+
+    if (arg === '--alpn') {
+      flags.alpn = (args[++i] ?? '')
+        .split(',')
+        .map(protocol => protocol.trim())
+        .filter(protocol => protocol.length > 0)
+      i++
+      continue
+    }
+
+    if (arg === '--socket-path') {
+      flags.socketPath = args[++i] ?? null
+      i++
+      continue
+    }
+
+    if (arg === '--proxy') {
+      flags.proxy = args[++i] ?? null
+      i++
+      continue
+    }
+
+    if (arg === '--proxy-auth') {
+      flags.proxyAuth = args[++i] ?? null
+      i++
+      continue
+    }
+
+    if (arg === '--proxy-env') {
+      flags.proxyEnv = true
+      i++
+      continue
+    }
+
+    if (arg === '--cookies') {
+      flags.cookies = true
+      i++
+      continue
+    }
+
+    if (arg === '--cookie-file') {
+      flags.cookieFile = args[++i] ?? null
+      i++
+      continue
+    }
+
     if (arg === '--output') {
       const format = args[++i] ?? 'console'
       if (format === 'console' || format === 'json' || format === 'html' || format === 'csv') {
@@ -278,22 +753,142 @@ export function flagsToConfig(flags: ParsedFlags): BenchConfig | null {
     inspect: flags.inspect
   }
 
+  const bodySources = [flags.body !== null, flags.bodyFile !== null, flags.form.length > 0]
+  if (bodySources.filter(Boolean).length > 1) {
+    throw new Error('Use only one of --body, --json, --body-file and --form')
+  }
+
   if (flags.body !== null) {
     config.body = flags.body
   }
 
+  if (flags.bodyFile !== null) {
+    config.body = readBodyFile(flags.bodyFile)
+  }
+
+  if (flags.form.length > 0) {
+    const form = buildMultipartBody(flags.form)
+    config.body = form.body
+    const headers = Object.entries(flags.headers).filter(
+      ([name]) => name.toLowerCase() !== 'content-type'
+    )
+    config.headers = { ...Object.fromEntries(headers), 'Content-Type': form.contentType }
+  }
+
   if (flags.rate !== null) {
     config.rate = flags.rate
   }
 
+  if (flags.pipelining !== null) {
+    config.pipelining = flags.pipelining
+  }
+
+  if (!flags.keepAlive) {
+    config.keepAlive = false
+  }
+
+  if (flags.churn !== null) {
+    config.churn = flags.churn
+  }
+
+  const tls: TlsConfig = {}
+  if (flags.caFile !== null) {
+    tls.ca = readPemFile(flags.caFile, '--cacert')
+  }
+  if (flags.certFile !== null) {
+    tls.cert = readPemFile(flags.certFile, '--cert')
+  }
+  if (flags.keyFile !== null) {
+    tls.key = readPemFile(flags.keyFile, '--key')
+  }
+  if (flags.insecure) {
+    tls.rejectUnauthorized = false
+  }
+  if (flags.servername !== null) {
+    tls.servername = flags.servername
+  }
+  if (flags.alpn !== null) {
+    tls.alpnProtocols = flags.alpn
+  }
+  if (Object.keys(tls).length > 0) {
+    config.tls = tls
+  }
+
+  if (flags.socketPath !== null) {
+    config.socketPath = flags.socketPath
+  }
+
+  if (flags.proxyAuth !== null && flags.proxy === null) {
+    throw new Error('--proxy-auth requires --proxy')
+  }
+  if (flags.proxy !== null) {
+    config.proxy =
+      flags.proxyAuth !== null ? { url: flags.proxy, auth: flags.proxyAuth } : flags.proxy
+  }
+  if (flags.proxyEnv) {
+    config.proxyFromEnv = true
+  }
+
+  if (flags.cookieFile !== null) {
+    config.cookies = { file: flags.cookieFile }
+  } else if (flags.cookies) {
+    config.cookies = true
+  }
+
+  if (flags.http2Sessions !== null || flags.http2Streams !== null) {
+    if (!flags.http2) {
+      throw new Error('--http2-sessions and --http2-streams require --http2')
+    }
+    config.http2 = {}
+    if (flags.http2Sessions !== null) {
+      config.http2.sessions = flags.http2Sessions
+    }
+    if (flags.http2Streams !== null) {
+      config.http2.maxConcurrentStreams = flags.http2Streams
+    }
+  }
+
+  if (flags.arrival !== null) {
+    config.arrival = { distribution: flags.arrival }
+    if (flags.maxInFlight !== null) {
+      config.arrival.maxInFlight = flags.maxInFlight
+    }
+  }
+
   if (flags.rampUp !== null) {
     config.rampUp = flags.rampUp
   }
 
+  if (flags.rampDown !== null) {
+    config.rampDown = flags.rampDown
+  }
+
   if (flags.warmup !== null) {
     config.warmup = flags.warmup
   }
 
+  if (flags.stages !== null) {
+    config.stages = flags.stages
+    if (flags.stageTarget !== null) {
+      config.stageTarget = flags.stageTarget
+    }
+  }
+
+  if (flags.data !== null) {
+    config.data = { file: flags.data }
+    if (flags.dataOrder !== null) {
+      config.data.order = flags.dataOrder
+    }
+  }
+
+  if (flags.assertions !== null) {
+    config.assertions = flags.assertions
+  }
+
+  if (flags.successStatus !== null) {
+    config.successStatus = flags.successStatus
+  }
+
   if (flags.p99Threshold !== null || flags.errorRateThreshold !== null) {
     config.thresholds = {}
     if (flags.p99Threshold !== null) {
@@ -306,3 +901,30 @@ export function flagsToConfig(flags: ParsedFlags): BenchConfig | null {
 
   return config
 }
+
+/**
+ * Converts parsed flags to capacity search options
+ * @param flags - Parsed CLI flags
+ * @returns Capacity search options, or null if no SLO was given
+ */
+export function flagsToCapacityConfig(flags: ParsedFlags): CapacityConfig | null {
+  if (flags.slo === null) {
+    return null
+  }
+
+  const capacity: CapacityConfig = { slo: flags.slo }
+
+  if (flags.maxErrorRate !== null) {
+    capacity.maxErrorRate = flags.maxErrorRate
+  }
+
+  if (flags.startRate !== null) {
+    capacity.startRate = flags.startRate
+  }
+
+  if (flags.maxRate !== null) {
+    capacity.maxRate = flags.maxRate
+  }
+
+  return capacity
+}
@@ -1,7 +1,8 @@
 #!/usr/bin/env node
 
-import { parseFlags, printHelp, flagsToConfig } from './flags.js'
+import { parseFlags, printHelp, flagsToConfig, flagsToCapacityConfig } from './flags.js'
 import { runCommand, compareCommand } from './commands/run.js'
+import { capacityCommand } from './commands/capacity.js'
 import { error } from './printer.js'
 import { VERSION, EXIT_CODES } from '../constants.js'
 
@@ -37,7 +38,14 @@ async function main(): Promise<void> {
 
   let exitCode: number
 
-  if (flags.compare && flags.urls.length > 1) {
+  if (flags.capacity) {
+    const capacity = flagsToCapacityConfig(flags)
+    if (capacity === null) {
+      error('Capacity search requires --slo, e.g. --slo p99<200')
+      process.exit(EXIT_CODES.ERROR)
+    }
+    exitCode = await capacityCommand(config, capacity)
+  } else if (flags.compare && flags.urls.length > 1) {
     exitCode = await compareCommand(flags.urls, config)
   } else {
     exitCode = await runCommand(config)
@@ -18,18 +18,44 @@ export const DEFAULT_TIMEOUT_MS = 5000
  */
 export const MAX_WORKERS = 8
 
+/**
+ * Default number of significant digits kept by the latency histogram
+ */
+export const DEFAULT_HISTOGRAM_SIGNIFICANT_DIGITS = 3
+
+/**
+ * Upper bound for the latency histogram's significant digits. Each digit multiplies
+ * the bucket count by about ten: 3 digits need at most 92 KB per histogram, while 5
+ * would need 8 MB, held by every histogram of every worker.
+ */
+export const MAX_HISTOGRAM_SIGNIFICANT_DIGITS = 3
+
+/**
+ * Default maximum trackable latency in milliseconds (1 minute)
+ */
+export const DEFAULT_MAX_LATENCY_MS = 60_000
+
+/**
+ * Upper bound for the configurable maximum trackable latency in milliseconds (1 hour)
+ */
+export const MAX_TRACKABLE_LATENCY_MS = 3_600_000
+
 /**
  * Number of histogram buckets for latency tracking
+ * @deprecated The latency histogram sizes its buckets from `significantDigits` and
+ * `maxLatency`
  */
 export const HISTOGRAM_BUCKETS = 10000
 
 /**
  * Maximum latency value in microseconds (10 seconds)
+ * @deprecated The latency histogram tracks up to the configurable `maxLatency`
  */
 export const MAX_LATENCY_US = 10_000_000
 
 /**
  * Bucket width in microseconds
+ * @deprecated The latency histogram's bucket width grows with the value
  */
 export const BUCKET_WIDTH_US = MAX_LATENCY_US / HISTOGRAM_BUCKETS
 
@@ -43,18 +69,60 @@ export const DEFAULT_WARMUP_SEC = 0
  */
 export const DEFAULT_RAMP_UP_SEC = 0
 
+/**
+ * Default ramp-down duration in seconds
+ */
+export const DEFAULT_RAMP_DOWN_SEC = 0
+
 /**
  * Metrics reporting interval in milliseconds
  */
 export const METRICS_INTERVAL_MS = 1000
 
+/**
+ * How often idle connections re-check a connection-count ramp, in milliseconds
+ */
+export const RAMP_POLL_INTERVAL_MS = 50
+
+/**
+ * Default rate of the first capacity search trial, in requests per second
+ */
+export const DEFAULT_CAPACITY_START_RATE = 100
+
+/**
+ * Default highest rate a capacity search will try, in requests per second
+ */
+export const DEFAULT_CAPACITY_MAX_RATE = 100_000
+
+/**
+ * Default capacity search precision, as a fraction of the highest passing rate
+ */
+export const DEFAULT_CAPACITY_PRECISION = 0.05
+
+/**
+ * Maximum number of trials in a capacity search
+ */
+export const MAX_CAPACITY_TRIALS = 20
+
+/**
+ * Share of the target rate a capacity trial must actually achieve to pass
+ */
+export const CAPACITY_MIN_THROUGHPUT_RATIO = 0.9
+
 /**
  * Package version
  */
 export const VERSION = '0.1.0'
 
+/**
+ * HTTP status codes considered successful unless the config sets its own list
+ */
+export const DEFAULT_SUCCESS_STATUS = '200,201,202,204,301,302,304'
+
 /**
  * HTTP status codes considered successful
+ * @deprecated Success is decided by the configurable `successStatus` list, which
+ * defaults to `DEFAULT_SUCCESS_STATUS`
  */
 export const SUCCESS_STATUS_CODES = new Set([200, 201, 202, 204, 301, 302, 304])
 
@@ -68,6 +136,21 @@ export const DEFAULT_METHOD = 'GET'
  */
 export const DEFAULT_OUTPUT_FORMAT = 'console'
 
+/**
+ * Default number of requests pipelined on one HTTP/1.1 connection
+ */
+export const DEFAULT_PIPELINING = 10
+
+/**
+ * Default limit of concurrent streams per HTTP/2 session
+ */
+export const DEFAULT_HTTP2_MAX_STREAMS = 100
+
+/**
+ * Default order in which data feeder rows are used
+ */
+export const DEFAULT_DATA_ORDER = 'sequential'
+
 /**
  * Exit codes for CI integration
  */
@@ -76,3 +159,37 @@ export const EXIT_CODES = {
   THRESHOLD_EXCEEDED: 1,
   ERROR: 2
 } as const
+
+/**
+ * Share of total latency spent in the client's queue above which reports warn that
+ * the load generator may be the bottleneck (percent)
+ */
+export const QUEUE_WAIT_WARNING_PERCENT = 10
+
+/**
+ * Display names of the latency phases in reports
+ */
+export const TIMING_PHASE_LABELS = {
+  dns: 'DNS',
+  connect: 'Connect',
+  tls: 'TLS',
+  ttfb: 'TTFB',
+  download: 'Download'
+} as const
+
+/**
+ * Number of TLS handshakes made when probing a target; all but the first try to
+ * resume the session
+ */
+export const TLS_PROBE_HANDSHAKES = 5
+
+/**
+ * Time to wait after a TLS handshake for the server's session ticket, which TLS 1.3
+ * sends after the handshake (ms)
+ */
+export const TLS_TICKET_WAIT_MS = 50
+
+/**
+ * Days before certificate expiry from which reports warn about it
+ */
+export const CERT_EXPIRY_WARNING_DAYS = 30
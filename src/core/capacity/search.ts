@@ -0,0 +1,160 @@
+import type {
+  BenchConfig,
+  BenchResult,
+  CapacityConfig,
+  CapacityResult,
+  CapacityTrial,
+  LatencySlo
+} from '../../types.js'
+import { runBenchmark } from '../orchestrator/orchestrator.js'
+import {
+  DEFAULT_CAPACITY_START_RATE,
+  DEFAULT_CAPACITY_MAX_RATE,
+  DEFAULT_CAPACITY_PRECISION,
+  MAX_CAPACITY_TRIALS,
+  CAPACITY_MIN_THROUGHPUT_RATIO
+} from '../../constants.js'
+
+/**
+ * Callback invoked after each trial completes
+ */
+export type TrialCallback = (trial: CapacityTrial) => void
+
+/**
+ * Capacity search: finds the highest request rate that still meets a latency SLO
+ *
+ * Runs short fixed-rate trials, doubling the rate until a trial fails (or the
+ * maximum rate passes), then binary searches between the highest passing and
+ * lowest failing rate until they are within the configured precision.
+ */
+export class CapacitySearch {
+  private readonly config: BenchConfig
+  private readonly slo: LatencySlo
+  private readonly maxErrorRate: number
+  private readonly startRate: number
+  private readonly maxRate: number
+  private readonly precision: number
+  private readonly trials: CapacityTrial[] = []
+
+  /**
+   * Creates a capacity search
+   * @param config - Benchmark configuration used for every trial (its rate is overridden)
+   * @param capacity - Capacity search options
+   */
+  constructor(config: BenchConfig, capacity: CapacityConfig) {
+    this.config = config
+    this.slo = capacity.slo
+    this.maxErrorRate = capacity.maxErrorRate ?? 0
+    this.startRate = capacity.startRate ?? DEFAULT_CAPACITY_START_RATE
+    this.maxRate = capacity.maxRate ?? DEFAULT_CAPACITY_MAX_RATE
+    this.precision = capacity.precision ?? DEFAULT_CAPACITY_PRECISION
+
+    if (!(this.startRate > 0) || this.maxRate < this.startRate) {
+      throw new Error('Capacity search needs 0 < start rate <= max rate')
+    }
+  }
+
+  /**
+   * Runs trials until the capacity is found
+   * @param onTrial - Optional callback invoked after each trial
+   * @returns Capacity result
+   */
+  async run(onTrial?: TrialCallback): Promise<CapacityResult> {
+    let passing = 0
+    let failing: number | null = null
+    let rate = Math.round(this.startRate)
+
+    while (this.trials.length < MAX_CAPACITY_TRIALS) {
+      const trial = this.evaluate(rate, await this.runTrial(rate))
+      this.trials.push(trial)
+      onTrial?.(trial)
+
+      if (trial.passed) {
+        passing = rate
+      } else {
+        failing = rate
+      }
+
+      if (failing === null) {
+        if (rate >= this.maxRate) {
+          break
+        }
+        rate = Math.min(rate * 2, Math.round(this.maxRate))
+        continue
+      }
+
+      if (failing - passing <= Math.max(1, passing * this.precision)) {
+        break
+      }
+      rate = Math.round((passing + failing) / 2)
+    }
+
+    return {
+      url: this.config.url,
+      slo: this.slo,
+      maxErrorRate: this.maxErrorRate,
+      capacity: passing > 0 ? passing : null,
+      trials: this.trials
+    }
+  }
+
+  /**
+   * Runs one fixed-rate trial
+   * @param rate - Target requests per second
+   * @returns Benchmark result
+   */
+  private runTrial(rate: number): Promise<BenchResult> {
+    return runBenchmark({
+      ...this.config,
+      rate,
+      stages: undefined,
+      rampUp: undefined,
+      rampDown: undefined
+    })
+  }
+
+  /**
+   * Checks a trial result against the SLO, error budget and target rate
+   * @param rate - Target requests per second
+   * @param result - Benchmark result
+   * @returns Trial outcome
+   */
+  private evaluate(rate: number, result: BenchResult): CapacityTrial {
+    const latency = result.latency[this.slo.percentile]
+    const errorRate = result.requests.total > 0 ? result.requests.failed / result.requests.total : 0
+
+    let reason: string | null = null
+    if (latency >= this.slo.maxLatency) {
+      reason = `${this.slo.percentile} ${latency.toFixed(2)}ms >= ${this.slo.maxLatency}ms`
+    } else if (errorRate > this.maxErrorRate) {
+      reason = `error rate ${(errorRate * 100).toFixed(2)}% > ${(this.maxErrorRate * 100).toFixed(2)}%`
+    } else if (result.throughput.rps < rate * CAPACITY_MIN_THROUGHPUT_RATIO) {
+      reason = `achieved ${Math.round(result.throughput.rps)} req/s`
+    }
+
+    return {
+      rate,
+      rps: result.throughput.rps,
+      latency,
+      errorRate,
+      passed: reason === null,
+      reason
+    }
+  }
+}
+
+/**
+ * Finds the highest request rate that still meets a latency SLO
+ * @param config - Benchmark configuration used for every trial
+ * @param capacity - Capacity search options
+ * @param onTrial - Optional callback invoked after each trial
+ * @returns Capacity result
+ */
+export async function findCapacity(
+  config: BenchConfig,
+  capacity: CapacityConfig,
+  onTrial?: TrialCallback
+): Promise<CapacityResult> {
+  const search = new CapacitySearch(config, capacity)
+  return search.run(onTrial)
+}
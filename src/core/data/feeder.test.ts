@@ -0,0 +1,128 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { DataFeeder, loadDataFile, partitionRows } from './feeder.js'
+
+void describe('loadDataFile', () => {
+  let dir: string
+
+  /**
+   * Writes a data file into the test directory
+   * @param name - File name
+   * @param content - File content
+   * @returns Path to the file
+   */
+  function dataFile(name: string, content: string): string {
+    const file = join(dir, name)
+    writeFileSync(file, content)
+    return file
+  }
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'swiftbench-feeder-'))
+  })
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  void it('parses quoted fields with commas, line breaks and doubled quotes', () => {
+    const file = dataFile(
+      'quoted.csv',
+      'name,bio\n"Doe, Jane","said ""hi""\nthen left"\nbob,"""quoted"""\n'
+    )
+
+    assert.deepEqual(loadDataFile(file), [
+      { name: 'Doe, Jane', bio: 'said "hi"\nthen left' },
+      { name: 'bob', bio: '"quoted"' }
+    ])
+  })
+
+  void it('handles CRLF line endings, a BOM and blank lines', () => {
+    const file = dataFile('windows.csv', '\uFEFFid , name\r\n1,ann\r\n\r\n2,bob\r\n3,')
+
+    assert.deepEqual(loadDataFile(file), [
+      { id: '1', name: 'ann' },
+      { id: '2', name: 'bob' },
+      { id: '3', name: '' }
+    ])
+  })
+
+  void it('parses JSONL objects, keeping nested values as JSON', () => {
+    const file = dataFile('rows.jsonl', '{"id":1,"tags":["a"]}\r\n\n{"id":2,"ok":true}\n')
+
+    assert.deepEqual(loadDataFile(file), [
+      { id: '1', tags: '["a"]' },
+      { id: '2', ok: 'true' }
+    ])
+  })
+
+  void it('reports invalid files', () => {
+    assert.throws(() => loadDataFile(dataFile('rows.txt', 'a')), /Unsupported data file/)
+    assert.throws(() => loadDataFile(join(dir, 'missing.csv')), /Cannot read data file/)
+    assert.throws(() => loadDataFile(dataFile('empty.csv', 'id\n')), /has no rows/)
+    assert.throws(
+      () => loadDataFile(dataFile('bad.jsonl', '{"id":1}\n[1]\n')),
+      /Line 2 of data file is not a JSON object/
+    )
+  })
+})
+
+void describe('partitionRows', () => {
+  const rows = Array.from({ length: 10 }, (_, index) => ({ id: String(index) }))
+
+  void it('gives workers disjoint rows in unique mode', () => {
+    const partitions = [0, 1, 2].map(workerId => partitionRows(rows, 'unique', 3, workerId))
+
+    assert.deepEqual(
+      partitions.map(partition => partition.map(row => row.id)),
+      [
+        ['0', '3', '6', '9'],
+        ['1', '4', '7'],
+        ['2', '5', '8']
+      ]
+    )
+    assert.equal(new Set(partitions.flat()).size, rows.length)
+  })
+
+  void it('shares all rows in the other orders', () => {
+    assert.equal(partitionRows(rows, 'sequential', 3, 1), rows)
+    assert.equal(partitionRows(rows, 'random', 3, 2), rows)
+  })
+})
+
+void describe('DataFeeder', () => {
+  const rows = ['a', 'b', 'c'].map(id => ({ id }))
+
+  /**
+   * Takes rows from a feeder
+   * @param feeder - Data feeder
+   * @param count - Number of rows
+   * @returns Row ids, or null once the feeder runs out
+   */
+  function take(feeder: DataFeeder, count: number): Array<string | null> {
+    return Array.from({ length: count }, () => feeder.next()?.id ?? null)
+  }
+
+  void it('wraps around in sequential order, starting at the offset', () => {
+    assert.deepEqual(take(new DataFeeder(rows, 'sequential'), 4), ['a', 'b', 'c', 'a'])
+    assert.deepEqual(take(new DataFeeder(rows, 'sequential', 2), 3), ['c', 'a', 'b'])
+    assert.deepEqual(take(new DataFeeder(rows, 'sequential', 7), 2), ['b', 'c'])
+  })
+
+  void it('runs out of rows in unique order', () => {
+    assert.deepEqual(take(new DataFeeder(rows, 'unique', 2), 4), ['a', 'b', 'c', null])
+  })
+
+  void it('picks random rows from the worker rows', () => {
+    const picked = new Set(take(new DataFeeder(rows, 'random'), 100))
+    assert.ok([...picked].every(id => id === 'a' || id === 'b' || id === 'c'))
+  })
+
+  void it('returns null without rows', () => {
+    assert.equal(new DataFeeder([], 'sequential', 3).next(), null)
+  })
+})
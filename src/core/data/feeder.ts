@@ -0,0 +1,195 @@
+import { readFileSync } from 'node:fs'
+import { extname } from 'node:path'
+
+import type { DataOrder, DataRow } from '../../types.js'
+
+/**
+ * Splits CSV text into records of fields, following RFC 4180 quoting
+ * @param text - CSV text
+ * @returns Records, each a list of fields
+ */
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  return records.filter(fields => fields.some(value => value !== ''))
+}
+
+/**
+ * Parses CSV text whose first record names the columns
+ * @param text - CSV text
+ * @returns Data rows
+ */
+function parseCsv(text: string): DataRow[] {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''))
+  if (header === undefined) {
+    return []
+  }
+
+  const columns = header.map(column => column.trim())
+  return records.map(fields => {
+    const row: DataRow = {}
+    columns.forEach((column, index) => {
+      row[column] = fields[index] ?? ''
+    })
+    return row
+  })
+}
+
+/**
+ * Parses JSONL text with one JSON object per line. Nested values are kept as JSON.
+ * @param text - JSONL text
+ * @returns Data rows
+ */
+function parseJsonl(text: string): DataRow[] {
+  return text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, number }) => {
+      let value: unknown
+      try {
+        value = JSON.parse(line)
+      } catch {
+        throw new Error(`Invalid JSON on line ${number} of data file`)
+      }
+
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error(`Line ${number} of data file is not a JSON object`)
+      }
+
+      const row: DataRow = {}
+      for (const [column, field] of Object.entries(value)) {
+        row[column] =
+          typeof field === 'object' && field !== null ? JSON.stringify(field) : String(field ?? '')
+      }
+      return row
+    })
+}
+
+/**
+ * Loads the rows of a CSV or JSONL data file, chosen by its extension
+ * @param file - Path to a .csv, .jsonl or .ndjson file
+ * @returns Data rows
+ */
+export function loadDataFile(file: string): DataRow[] {
+  const extension = extname(file).toLowerCase()
+  if (extension !== '.csv' && extension !== '.jsonl' && extension !== '.ndjson') {
+    throw new Error(`Unsupported data file "${file}": expected .csv, .jsonl or .ndjson`)
+  }
+
+  let text: string
+  try {
+    text = readFileSync(file, 'utf-8')
+  } catch {
+    throw new Error(`Cannot read data file "${file}"`)
+  }
+
+  const rows = extension === '.csv' ? parseCsv(text) : parseJsonl(text)
+  if (rows.length === 0) {
+    throw new Error(`Data file "${file}" has no rows`)
+  }
+
+  return rows
+}
+
+/**
+ * Picks one worker's rows. In unique mode workers get disjoint rows so no row is
+ * used twice; otherwise every worker can use every row.
+ * @param rows - All data rows
+ * @param order - Feeder order
+ * @param workerCount - Number of workers
+ * @param workerId - Worker the rows are for
+ * @returns Worker's rows
+ */
+export function partitionRows(
+  rows: DataRow[],
+  order: DataOrder,
+  workerCount: number,
+  workerId: number
+): DataRow[] {
+  if (order !== 'unique') {
+    return rows
+  }
+  return rows.filter((_row, index) => index % workerCount === workerId)
+}
+
+/**
+ * Hands out data rows to the requests of one worker
+ */
+export class DataFeeder {
+  private readonly rows: DataRow[]
+  private readonly order: DataOrder
+  private cursor: number
+
+  /**
+   * Creates a data feeder
+   * @param rows - Rows available to the worker
+   * @param order - Order rows are handed out in
+   * @param offset - Row the sequential order starts from, so workers start at different rows
+   */
+  constructor(rows: DataRow[], order: DataOrder, offset = 0) {
+    this.rows = rows
+    this.order = order
+    this.cursor = order === 'sequential' && rows.length > 0 ? offset % rows.length : 0
+  }
+
+  /**
+   * Takes the next row
+   * @returns Row, or null once unique rows are used up
+   */
+  next(): DataRow | null {
+    if (this.rows.length === 0) {
+      return null
+    }
+
+    switch (this.order) {
+      case 'random':
+        return this.rows[Math.floor(Math.random() * this.rows.length)] ?? null
+      case 'unique':
+        return this.rows[this.cursor++] ?? null
+      default: {
+        const row = this.rows[this.cursor] ?? null
+        this.cursor = (this.cursor + 1) % this.rows.length
+        return row
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import type { AssertionConfig } from '../../types.js'
+import type { HttpResponse } from './client.js'
+import { parseJsonPath, readJsonPath } from '../scenario/capture.js'
+
+/**
+ * Response as seen by assertions, with the body decoded and parsed at most once
+ */
+type AssertionSubject = {
+  response: HttpResponse
+  body: () => string
+  json: () => unknown
+}
+
+/**
+ * Assertion compiled for repeated use
+ */
+type CompiledAssertion = {
+  name: string
+  needsBody: boolean
+  passes: (subject: AssertionSubject) => boolean
+}
+
+/**
+ * Compiles the checks of an assertion config, in a fixed order
+ * @param config - Assertion configuration
+ * @returns Compiled assertions
+ */
+function compileAssertions(config: AssertionConfig): CompiledAssertion[] {
+  const assertions: CompiledAssertion[] = []
+
+  if (config.status !== undefined) {
+    const codes = new Set(config.status)
+    assertions.push({
+      name: 'status',
+      needsBody: false,
+      passes: ({ response }) => codes.has(response.statusCode)
+    })
+  }
+
+  for (const header of config.headers ?? []) {
+    const name = header.toLowerCase()
+    assertions.push({
+      name: `header:${name}`,
+      needsBody: false,
+      passes: ({ response }) => response.headers[name] !== undefined
+    })
+  }
+
+  const { maxBodySize } = config
+  if (maxBodySize !== undefined) {
+    assertions.push({
+      name: 'maxBodySize',
+      needsBody: false,
+      passes: ({ response }) => response.bytes <= maxBodySize
+    })
+  }
+
+  const { bodyContains } = config
+  if (bodyContains !== undefined) {
+    assertions.push({
+      name: 'bodyContains',
+      needsBody: true,
+      passes: ({ body }) => body().includes(bodyContains)
+    })
+  }
+
+  if (config.bodyMatches !== undefined) {
+    const pattern = new RegExp(config.bodyMatches)
+    assertions.push({
+      name: 'bodyMatches',
+      needsBody: true,
+      passes: ({ body }) => pattern.test(body())
+    })
+  }
+
+  for (const [path, expected] of Object.entries(config.json ?? {})) {
+    const keys = parseJsonPath(path)
+    const serialized = JSON.stringify(expected)
+    assertions.push({
+      name: `json:${path}`,
+      needsBody: true,
+      passes: ({ json }) => JSON.stringify(readJsonPath(json(), keys)) === serialized
+    })
+  }
+
+  return assertions
+}
+
+/**
+ * Declarative checks run against every response in the worker
+ */
+export class ResponseAssertions {
+  private readonly assertions: CompiledAssertion[]
+  private readonly checksStatus: boolean
+  private readonly needsBody: boolean
+
+  /**
+   * Compiles response assertions
+   * @param config - Assertion configuration
+   */
+  constructor(config: AssertionConfig) {
+    this.assertions = compileAssertions(config)
+    this.checksStatus = config.status !== undefined
+    this.needsBody = this.assertions.some(assertion => assertion.needsBody)
+  }
+
+  /**
+   * Checks whether the expected status set replaces the default success status check
+   * @returns True if the assertions check the status code
+   */
+  hasStatusCheck(): boolean {
+    return this.checksStatus
+  }
+
+  /**
+   * Checks whether any assertion reads the response body
+   * @returns True if the body must be kept for the assertions
+   */
+  requiresBody(): boolean {
+    return this.needsBody
+  }
+
+  /**
+   * Runs every assertion against a response
+   * @param response - Response to check
+   * @returns Names of the assertions that failed
+   */
+  check(response: HttpResponse): string[] {
+    let body: string | null = null
+    let document: unknown = undefined
+    let parsed = false
+
+    const subject: AssertionSubject = {
+      response,
+      body: () => (body ??= response.body?.toString() ?? ''),
+      json: () => {
+        if (!parsed) {
+          parsed = true
+          try {
+            document = JSON.parse(subject.body())
+          } catch {
+            document = undefined
+          }
+        }
+        return document
+      }
+    }
+
+    return this.assertions
+      .filter(assertion => !assertion.passes(subject))
+      .map(assertion => assertion.name)
+  }
+}
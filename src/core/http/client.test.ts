@@ -0,0 +1,65 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer } from 'node:http'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import { HttpClient, httpRequest } from './client.js'
+
+/**
+ * Size of the response body the test server sends, in several chunks
+ */
+const BODY_BYTES = 256 * 1024
+
+void describe('HttpClient', () => {
+  let server: Server
+  let url: string
+  let client: HttpClient
+
+  before(async () => {
+    server = createServer((_req, res) => {
+      res.writeHead(200, { 'content-type': 'application/octet-stream' })
+      for (let sent = 0; sent < BODY_BYTES; sent += 16 * 1024) {
+        res.write(Buffer.alloc(16 * 1024, 'x'))
+      }
+      res.end()
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    client = new HttpClient({
+      baseUrl: url,
+      connections: 1,
+      timeout: 5000,
+      pipelining: 1,
+      keepAlive: true,
+      churn: null,
+      tls: null,
+      socketPath: null,
+      proxy: null
+    })
+  })
+
+  after(async () => {
+    await client.close()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  void it('counts the body bytes without keeping the body', async () => {
+    const response = await client.execute('GET', '/', {}, null)
+    assert.equal(response.statusCode, 200)
+    assert.equal(response.bytes, BODY_BYTES)
+    assert.equal(response.body, null)
+  })
+
+  void it('returns the body when asked to keep it', async () => {
+    const response = await client.execute('GET', '/', {}, null, true)
+    assert.equal(response.bytes, BODY_BYTES)
+    assert.equal(response.body?.byteLength, BODY_BYTES)
+  })
+
+  void it('counts the body bytes of standalone requests', async () => {
+    const response = await httpRequest(`${url}/`, 'GET', {}, null)
+    assert.equal(response.bytes, BODY_BYTES)
+    assert.equal(response.body, null)
+  })
+})
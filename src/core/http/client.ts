@@ -1,33 +1,250 @@
-import { Pool, request } from 'undici'
+import { Socket } from 'node:net'
+import { Agent, DecoratorHandler, Pool, buildConnector, request } from 'undici'
+import type { Dispatcher, errors } from 'undici'
 
-import type { HttpMethod } from '../../types.js'
+import type { HttpMethod, ProxyConfig, TlsConfig } from '../../types.js'
 import { DEFAULT_TIMEOUT_MS } from '../../constants.js'
+import { toTlsOptions } from './tls.js'
+import { openTunnel, proxyAuthorization } from './proxy.js'
 
 /**
  * HTTP response from benchmark request
  */
 export type HttpResponse = {
   statusCode: number
+  headers: Record<string, string | string[] | undefined>
   bytes: number
   latencyUs: number
+  queueUs: number
+  wireUs: number
+  ttfbUs: number
+  downloadUs: number
+  body: Buffer | null
 }
 
 /**
- * HTTP client configuration
+ * Setup time of a new connection, in microseconds. DNS is null when the host
+ * needed no lookup, TLS when the connection is plain TCP.
+ */
+export type ConnectionTimings = {
+  dnsUs: number | null
+  connectUs: number
+  tlsUs: number | null
+}
+
+/**
+ * HTTP client configuration. `churn` opens a new connection every n requests;
+ * with `keepAlive` off every request gets its own connection. With `socketPath` set,
+ * connections go to that Unix domain socket instead of the URL's host; with `proxy`
+ * set, they go through that HTTP proxy.
  */
 export type HttpClientConfig = {
   baseUrl: string
   connections: number
   timeout: number
-  http2: boolean
+  pipelining: number
+  keepAlive: boolean
+  churn: number | null
+  tls: TlsConfig | null
+  socketPath: string | null
+  proxy: ProxyConfig | null
+  onConnection?: (timings: ConnectionTimings) => void
+  onReuse?: () => void
+  onServerClose?: () => void
+}
+
+/**
+ * Error codes of connections ended by the server
+ */
+const SERVER_CLOSE_CODES = new Set(['UND_ERR_SOCKET', 'ECONNRESET'])
+
+/**
+ * Client the request loop sends requests through, over HTTP/1.1 or HTTP/2
+ */
+export type RequestClient = {
+  execute(
+    method: HttpMethod,
+    path: string,
+    headers: Record<string, string>,
+    body: string | Buffer | null,
+    keepBody?: boolean
+  ): Promise<HttpResponse>
+  getProtocol(): string | null
+  close(): Promise<void>
+  destroy(): Promise<void>
+}
+
+/**
+ * Times the DNS lookup, TCP connect and TLS handshake of a connection that is
+ * being opened, from the socket's events
+ * @param socket - Socket that has just started connecting
+ * @param secure - Whether the connection uses TLS
+ * @param onConnection - Callback invoked once the connection is ready
+ */
+export function watchConnection(
+  socket: Socket,
+  secure: boolean,
+  onConnection: (timings: ConnectionTimings) => void
+): void {
+  const start = performance.now()
+  let lookupAt: number | null = null
+  let connectAt: number | null = null
+
+  socket.once('lookup', () => {
+    lookupAt = performance.now()
+  })
+  socket.once('connect', () => {
+    connectAt = performance.now()
+  })
+  socket.once(secure ? 'secureConnect' : 'connect', () => {
+    const readyAt = performance.now()
+    const tcpAt = connectAt ?? readyAt
+    onConnection({
+      dnsUs: lookupAt !== null ? (lookupAt - start) * 1000 : null,
+      connectUs: (tcpAt - (lookupAt ?? start)) * 1000,
+      tlsUs: secure ? (readyAt - tcpAt) * 1000 : null
+    })
+  })
+}
+
+/**
+ * Builds undici's connector with the TLS options and Unix socket path, timing every
+ * new connection
+ * @param tls - TLS options
+ * @param socketPath - Unix domain socket to connect to instead of the host
+ * @param onConnection - Callback invoked once a connection is ready
+ * @returns Connector
+ */
+function createConnector(
+  tls: TlsConfig | null,
+  socketPath: string | null,
+  onConnection?: (timings: ConnectionTimings) => void
+): buildConnector.connector {
+  const connector = buildConnector({ ...toTlsOptions(tls), socketPath: socketPath ?? undefined })
+
+  if (onConnection === undefined) {
+    return connector
+  }
+
+  return (options, callback) => {
+    const socket: unknown = connector(options, callback)
+
+    if (socket instanceof Socket) {
+      watchConnection(socket, options.protocol === 'https:', onConnection)
+    }
+
+    return socket
+  }
+}
+
+/**
+ * Builds a connector that reaches HTTPS targets through a CONNECT tunnel of the
+ * proxy and handshakes TLS with the target over it. The connect phase of the
+ * timings covers reaching the proxy and opening the tunnel.
+ * @param proxy - Proxy
+ * @param tls - TLS options
+ * @param timeout - Timeout for opening the tunnel in milliseconds
+ * @param onConnection - Callback invoked once a connection is ready
+ * @returns Connector
+ */
+function createTunnelConnector(
+  proxy: ProxyConfig,
+  tls: TlsConfig | null,
+  timeout: number,
+  onConnection?: (timings: ConnectionTimings) => void
+): buildConnector.connector {
+  const connector = buildConnector(toTlsOptions(tls))
+
+  return (options, callback) => {
+    const start = performance.now()
+
+    openTunnel(proxy, `${options.hostname}:${options.port || 443}`, timeout).then(
+      socket => {
+        const tunnelAt = performance.now()
+        connector({ ...options, httpSocket: socket }, (...args) => {
+          if (args[0] === null) {
+            onConnection?.({
+              dnsUs: null,
+              connectUs: (tunnelAt - start) * 1000,
+              tlsUs: (performance.now() - tunnelAt) * 1000
+            })
+          }
+          callback(...args)
+        })
+      },
+      (err: Error) => callback(err, null)
+    )
+  }
+}
+
+/**
+ * Reads a response body to its end. Unless the body is kept, each chunk is only
+ * counted and dropped, so large responses do not sit in memory.
+ * @param body - Response body stream
+ * @param keepBody - Whether to return the body
+ * @returns Body size in bytes, and the body if kept
+ */
+async function readBody(
+  body: Dispatcher.ResponseData['body'],
+  keepBody: boolean
+): Promise<{ bytes: number; body: Buffer | null }> {
+  if (keepBody) {
+    const buffer = Buffer.from(await body.arrayBuffer())
+    return { bytes: buffer.byteLength, body: buffer }
+  }
+
+  let bytes = 0
+  for await (const chunk of body) {
+    bytes += (chunk as Buffer).byteLength
+  }
+  return { bytes, body: null }
+}
+
+/**
+ * Dispatch handler that reports when undici writes the request to a connection,
+ * i.e. when it leaves the pool's queue
+ */
+class DispatchTimingHandler extends DecoratorHandler {
+  private readonly handler: Dispatcher.DispatchHandlers
+  private readonly onDispatch: () => void
+
+  /**
+   * Wraps a dispatch handler
+   * @param handler - Handler to forward events to
+   * @param onDispatch - Callback invoked when the request is written to a connection
+   */
+  constructor(handler: Dispatcher.DispatchHandlers, onDispatch: () => void) {
+    super(handler)
+    this.handler = handler
+    this.onDispatch = onDispatch
+  }
+
+  /**
+   * Notes the dispatch before forwarding the event
+   * @param abort - Aborts the request
+   */
+  onConnect(abort: (err?: Error) => void): void {
+    this.onDispatch()
+    this.handler.onConnect?.(abort)
+  }
 }
 
 /**
- * High-performance HTTP client wrapping undici
+ * High-performance HTTP/1.1 client wrapping undici
  */
-export class HttpClient {
+export class HttpClient implements RequestClient {
   private readonly pool: Pool
+  private readonly dispatcher: Dispatcher
+  private readonly dispatchTimes: WeakMap<Dispatcher.DispatchOptions, bigint> = new WeakMap()
   private readonly timeout: number
+  private readonly reset: boolean
+  private readonly detectCloseHeader: boolean
+  private readonly onReuse: (() => void) | undefined
+  private readonly onServerClose: (() => void) | undefined
+  private readonly forwardTo: URL | null
+  private readonly proxyAuthorization: string | null
+  private freshConnections: number = 0
+  private closing: boolean = false
 
   /**
    * Creates a new HTTP client
@@ -35,56 +252,126 @@ export class HttpClient {
    */
   constructor(config: HttpClientConfig) {
     this.timeout = config.timeout
+    this.reset = !config.keepAlive || config.churn === 1
+    // Without churn, a Connection: close response means the server chose to end the connection
+    this.detectCloseHeader = config.keepAlive && config.churn === null
+    this.onReuse = config.onReuse
+    this.onServerClose = config.onServerClose
+
+    // Plain HTTP goes to the proxy with the target in the request line, HTTPS through
+    // a tunnel the proxy opens to the target
+    const { proxy } = config
+    const target = new URL(config.baseUrl)
+    const forward = target.protocol === 'http:'
+    this.forwardTo = proxy !== null && forward ? target : null
+    this.proxyAuthorization = proxy !== null && forward ? proxyAuthorization(proxy) : null
 
-    this.pool = new Pool(config.baseUrl, {
+    this.pool = new Pool(proxy !== null && forward ? proxy.url : config.baseUrl, {
       connections: config.connections,
-      pipelining: config.http2 ? 1 : 10,
+      pipelining: config.pipelining,
       keepAliveTimeout: 60_000,
-      keepAliveMaxTimeout: 600_000
+      keepAliveMaxTimeout: 600_000,
+      // undici resets a connection once it has carried more than maxRequestsPerClient
+      // requests, and 0 means no limit, so churn of one request is done with reset
+      ...(config.churn !== null && config.churn > 1
+        ? { maxRequestsPerClient: config.churn - 1 }
+        : {}),
+      connect:
+        proxy !== null && !forward
+          ? createTunnelConnector(proxy, config.tls, config.timeout, config.onConnection)
+          : createConnector(config.tls, config.socketPath, config.onConnection)
+    })
+
+    this.pool.on('connect', () => {
+      this.freshConnections++
+    })
+    this.pool.on('disconnect', (_origin, _targets, err: errors.UndiciError) => {
+      if (!this.closing && SERVER_CLOSE_CODES.has(err.code)) {
+        this.onServerClose?.()
+      }
     })
+
+    // Requests wait in the pool's queue until a connection can take them
+    this.dispatcher = this.pool.compose(
+      dispatch => (options, handler) =>
+        dispatch(
+          options,
+          new DispatchTimingHandler(handler, () => {
+            this.recordDispatch(this.dispatchTimes.has(options))
+            this.dispatchTimes.set(options, process.hrtime.bigint())
+          })
+        )
+    )
   }
 
   /**
-   * Executes an HTTP request and measures latency
+   * Executes an HTTP request and measures latency, split into the wait in the pool's
+   * queue and the time on the wire, which in turn splits into time to first byte
+   * (response headers) and body download
    * @param method - HTTP method
    * @param path - Request path
    * @param headers - Request headers
    * @param body - Request body
+   * @param keepBody - Whether to return the response body (otherwise only its size is kept)
    * @returns Response with status, bytes, and latency
    */
   async execute(
     method: HttpMethod,
     path: string,
     headers: Record<string, string>,
-    body: string | Buffer | null
+    body: string | Buffer | null,
+    keepBody: boolean = false
   ): Promise<HttpResponse> {
-    const start = process.hrtime.bigint()
-
-    const response = await this.pool.request({
+    const options: Dispatcher.RequestOptions = {
       method,
-      path,
-      headers,
+      path: this.forwardTo !== null ? `${this.forwardTo.origin}${path}` : path,
+      headers: this.forwardTo !== null ? this.toProxyHeaders(headers, this.forwardTo) : headers,
       body: body ?? undefined,
       headersTimeout: this.timeout,
-      bodyTimeout: this.timeout
-    })
+      bodyTimeout: this.timeout,
+      reset: this.reset
+    }
+    const start = process.hrtime.bigint()
 
-    const responseBody = await response.body.arrayBuffer()
+    const response = await this.dispatcher.request(options)
+    const headersAt = process.hrtime.bigint()
+
+    const responseBody = await readBody(response.body, keepBody)
     const end = process.hrtime.bigint()
 
+    const dispatchedAt = this.dispatchTimes.get(options) ?? start
     const latencyUs = Number((end - start) / 1000n)
 
+    if (this.detectCloseHeader && response.headers.connection === 'close') {
+      this.onServerClose?.()
+    }
+
     return {
       statusCode: response.statusCode,
-      bytes: responseBody.byteLength,
-      latencyUs
+      headers: response.headers,
+      bytes: responseBody.bytes,
+      latencyUs,
+      queueUs: Number((dispatchedAt - start) / 1000n),
+      wireUs: Number((end - dispatchedAt) / 1000n),
+      ttfbUs: Number((headersAt - dispatchedAt) / 1000n),
+      downloadUs: Number((end - headersAt) / 1000n),
+      body: responseBody.body
     }
   }
 
+  /**
+   * Gets the protocol of the client's connections. undici only offers HTTP/1.1.
+   * @returns Protocol name
+   */
+  getProtocol(): string {
+    return 'http/1.1'
+  }
+
   /**
    * Closes the connection pool
    */
   async close(): Promise<void> {
+    this.closing = true
     await this.pool.close()
   }
 
@@ -92,8 +379,43 @@ export class HttpClient {
    * Destroys the connection pool immediately
    */
   async destroy(): Promise<void> {
+    this.closing = true
     await this.pool.destroy()
   }
+
+  /**
+   * Adds the headers of a request forwarded by the proxy: Host naming the target,
+   * unless the request sets its own, and the proxy's credentials
+   * @param headers - Request headers
+   * @param target - Target the proxy forwards the request to
+   * @returns Headers to send to the proxy
+   */
+  private toProxyHeaders(headers: Record<string, string>, target: URL): Record<string, string> {
+    const result = { ...headers }
+
+    if (!Object.keys(headers).some(name => name.toLowerCase() === 'host')) {
+      result.host = target.host
+    }
+    if (this.proxyAuthorization !== null) {
+      result['proxy-authorization'] = this.proxyAuthorization
+    }
+
+    return result
+  }
+
+  /**
+   * Notes a request being written to a connection. The first request on every new
+   * connection opened it; any other request reused a connection.
+   * @param resent - Whether undici is resending a pipelined request after its
+   * connection closed, which is not counted again
+   */
+  private recordDispatch(resent: boolean): void {
+    if (this.freshConnections > 0) {
+      this.freshConnections--
+    } else if (!resent) {
+      this.onReuse?.()
+    }
+  }
 }
 
 /**
@@ -103,6 +425,7 @@ export class HttpClient {
  * @param headers - Request headers
  * @param body - Request body
  * @param timeout - Request timeout
+ * @param socketPath - Unix domain socket to send the request over
  * @returns Response with status, bytes, and latency
  */
 export async function httpRequest(
@@ -110,26 +433,40 @@ export async function httpRequest(
   method: HttpMethod,
   headers: Record<string, string>,
   body: string | Buffer | null,
-  timeout: number = DEFAULT_TIMEOUT_MS
+  timeout: number = DEFAULT_TIMEOUT_MS,
+  socketPath: string | null = null
 ): Promise<HttpResponse> {
+  const dispatcher = socketPath !== null ? new Agent({ connect: { socketPath } }) : undefined
   const start = process.hrtime.bigint()
 
-  const response = await request(url, {
-    method,
-    headers,
-    body: body ?? undefined,
-    headersTimeout: timeout,
-    bodyTimeout: timeout
-  })
+  try {
+    const response = await request(url, {
+      method,
+      headers,
+      body: body ?? undefined,
+      headersTimeout: timeout,
+      bodyTimeout: timeout,
+      dispatcher
+    })
+    const headersAt = process.hrtime.bigint()
 
-  const responseBody = await response.body.arrayBuffer()
-  const end = process.hrtime.bigint()
+    const { bytes } = await readBody(response.body, false)
+    const end = process.hrtime.bigint()
 
-  const latencyUs = Number((end - start) / 1000n)
+    const latencyUs = Number((end - start) / 1000n)
 
-  return {
-    statusCode: response.statusCode,
-    bytes: responseBody.byteLength,
-    latencyUs
+    return {
+      statusCode: response.statusCode,
+      headers: response.headers,
+      bytes,
+      latencyUs,
+      queueUs: 0,
+      wireUs: latencyUs,
+      ttfbUs: Number((headersAt - start) / 1000n),
+      downloadUs: Number((end - headersAt) / 1000n),
+      body: null
+    }
+  } finally {
+    await dispatcher?.close()
   }
 }
@@ -0,0 +1,199 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { CookieJar, loadCookieFile, parseSetCookie } from './cookies.js'
+
+const NOW = Date.parse('2026-01-01T00:00:00Z')
+
+void describe('parseSetCookie', () => {
+  const url = new URL('https://api.example.com/v1/users/list')
+
+  void it('defaults to a host-only session cookie for the request directory', () => {
+    assert.deepEqual(parseSetCookie('sid = abc=1 ', url, NOW), {
+      name: 'sid',
+      value: 'abc=1',
+      domain: 'api.example.com',
+      hostOnly: true,
+      path: '/v1/users',
+      secure: false,
+      expires: null
+    })
+    assert.equal(parseSetCookie('sid=1', new URL('http://api.example.com/'), NOW)?.path, '/')
+  })
+
+  void it('reads the Domain, Path and Secure attributes', () => {
+    const cookie = parseSetCookie('sid=1; Domain=.EXAMPLE.com; Path=/v1; Secure', url, NOW)
+    assert.equal(cookie?.domain, 'example.com')
+    assert.equal(cookie?.hostOnly, false)
+    assert.equal(cookie?.path, '/v1')
+    assert.equal(cookie?.secure, true)
+  })
+
+  void it('rejects a Domain that does not cover the request host', () => {
+    assert.equal(parseSetCookie('sid=1; Domain=other.com', url, NOW), null)
+    assert.equal(parseSetCookie('sid=1; Domain=www.example.com', url, NOW), null)
+    assert.equal(parseSetCookie('sid=1; Domain=le.com', url, NOW), null)
+  })
+
+  void it('only accepts the exact address as Domain for IP hosts', () => {
+    const ip = new URL('http://10.0.0.1/')
+    assert.equal(parseSetCookie('sid=1; Domain=0.0.1', ip, NOW), null)
+    assert.equal(parseSetCookie('sid=1; Domain=10.0.0.1', ip, NOW)?.domain, '10.0.0.1')
+  })
+
+  void it('lets Max-Age take precedence over Expires', () => {
+    const expires = 'Expires=Wed, 01 Jan 2031 00:00:00 GMT'
+    assert.equal(parseSetCookie(`a=1; ${expires}`, url, NOW)?.expires, Date.UTC(2031, 0, 1))
+    assert.equal(parseSetCookie(`a=1; Max-Age=60; ${expires}`, url, NOW)?.expires, NOW + 60_000)
+    assert.equal(parseSetCookie(`a=1; ${expires}; Max-Age=-1`, url, NOW)?.expires, NOW - 1000)
+    assert.equal(parseSetCookie('a=1; Max-Age=soon; Expires=never', url, NOW)?.expires, null)
+  })
+
+  void it('rejects headers without a name', () => {
+    assert.equal(parseSetCookie('novalue', url, NOW), null)
+    assert.equal(parseSetCookie('=1', url, NOW), null)
+  })
+})
+
+void describe('CookieJar', () => {
+  void it('sends host-only cookies to the setting host only', () => {
+    const jar = new CookieJar()
+    jar.store(new URL('http://example.com/'), 'sid=1')
+
+    assert.equal(jar.header(new URL('http://example.com/a')), 'sid=1')
+    assert.equal(jar.header(new URL('http://api.example.com/a')), null)
+  })
+
+  void it('sends domain cookies to the domain and its subdomains', () => {
+    const jar = new CookieJar()
+    jar.store(new URL('http://api.example.com/'), 'sid=1; Domain=example.com')
+
+    assert.equal(jar.header(new URL('http://example.com/')), 'sid=1')
+    assert.equal(jar.header(new URL('http://a.b.example.com/')), 'sid=1')
+    assert.equal(jar.header(new URL('http://badexample.com/')), null)
+  })
+
+  void it('does not treat IP addresses as subdomains', () => {
+    const jar = new CookieJar([
+      {
+        name: 'sid',
+        value: '1',
+        domain: '0.0.1',
+        hostOnly: false,
+        path: '/',
+        secure: false,
+        expires: null
+      }
+    ])
+
+    assert.equal(jar.header(new URL('http://10.0.0.1/')), null)
+  })
+
+  void it('matches paths on segment boundaries, longest path first', () => {
+    const jar = new CookieJar()
+    jar.store(new URL('http://example.com/'), ['root=1; Path=/', 'admin=1; Path=/admin'])
+
+    assert.equal(jar.header(new URL('http://example.com/admin/users')), 'admin=1; root=1')
+    assert.equal(jar.header(new URL('http://example.com/admin')), 'admin=1; root=1')
+    assert.equal(jar.header(new URL('http://example.com/administrator')), 'root=1')
+  })
+
+  void it('sends Secure cookies over HTTPS only', () => {
+    const jar = new CookieJar()
+    jar.store(new URL('https://example.com/'), 'sid=1; Secure')
+
+    assert.equal(jar.header(new URL('https://example.com/')), 'sid=1')
+    assert.equal(jar.header(new URL('http://example.com/')), null)
+  })
+
+  void it('replaces a cookie and removes it once expired', () => {
+    const jar = new CookieJar()
+    const url = new URL('http://example.com/')
+    jar.store(url, 'sid=1')
+    jar.store(url, 'sid=2')
+    assert.equal(jar.header(url), 'sid=2')
+
+    jar.store(url, 'sid=; Max-Age=0')
+    assert.equal(jar.header(url), null)
+  })
+
+  void it('keeps cookies with the same name on other paths', () => {
+    const jar = new CookieJar()
+    const url = new URL('http://example.com/a/b')
+    jar.store(url, ['sid=1; Path=/', 'sid=2; Path=/a'])
+    jar.store(url, 'sid=; Path=/a; Expires=Thu, 01 Jan 1970 00:00:00 GMT')
+
+    assert.equal(jar.header(url), 'sid=1')
+  })
+})
+
+void describe('loadCookieFile', () => {
+  let dir: string
+
+  /**
+   * Writes a cookie file into the test directory
+   * @param name - File name
+   * @param lines - Cookie lines, fields separated by tabs
+   * @returns Path to the file
+   */
+  function cookieFile(name: string, lines: string[]): string {
+    const file = join(dir, name)
+    writeFileSync(file, lines.join('\n'))
+    return file
+  }
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'swiftbench-cookies-'))
+  })
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  void it('loads cookies, including HttpOnly and session ones', () => {
+    const file = cookieFile('cookies.txt', [
+      '# Netscape HTTP Cookie File',
+      '',
+      '.Example.com\tTRUE\t/\tTRUE\t4102444800\tsid\ta\tb',
+      '#HttpOnly_api.example.com\tFALSE\t/v1\tFALSE\t0\ttoken\txyz'
+    ])
+
+    assert.deepEqual(loadCookieFile(file), [
+      {
+        name: 'sid',
+        value: 'a\tb',
+        domain: 'example.com',
+        hostOnly: false,
+        path: '/',
+        secure: true,
+        expires: 4102444800000
+      },
+      {
+        name: 'token',
+        value: 'xyz',
+        domain: 'api.example.com',
+        hostOnly: true,
+        path: '/v1',
+        secure: false,
+        expires: null
+      }
+    ])
+  })
+
+  void it('drops expired cookies', () => {
+    const file = cookieFile('expired.txt', ['example.com\tFALSE\t/\tFALSE\t1\told\tx'])
+    assert.deepEqual(loadCookieFile(file), [])
+  })
+
+  void it('reports invalid lines and unreadable files', () => {
+    const file = cookieFile('invalid.txt', [
+      'example.com\tFALSE\t/\tFALSE\t0\tsid\t1',
+      'example.com\tFALSE\t/\tFALSE\tsoon\tsid\t1'
+    ])
+    assert.throws(() => loadCookieFile(file), /Invalid cookie on line 2 of cookie file/)
+    assert.throws(() => loadCookieFile(join(dir, 'missing.txt')), /Cannot read cookie file/)
+  })
+})
@@ -0,0 +1,248 @@
+import { readFileSync } from 'node:fs'
+import { isIP } from 'node:net'
+
+import type { Cookie } from '../../types.js'
+
+/**
+ * Prefix curl writes before the domain of HttpOnly cookies in a cookie file
+ */
+const HTTP_ONLY_PREFIX = '#HttpOnly_'
+
+/**
+ * Gets the host of a URL as cookies compare it: lowercase, IPv6 without brackets
+ * @param url - Request URL
+ * @returns Host name
+ */
+function cookieHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase()
+}
+
+/**
+ * Checks whether a host is the cookie's domain or a subdomain of it. IP addresses
+ * only match themselves.
+ * @param host - Request host
+ * @param domain - Cookie domain
+ * @returns Whether the domain matches
+ */
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || (isIP(host) === 0 && host.endsWith(`.${domain}`))
+}
+
+/**
+ * Checks whether a request path is the cookie's path or below it
+ * @param path - Request path
+ * @param cookiePath - Cookie path
+ * @returns Whether the path matches
+ */
+function pathMatches(path: string, cookiePath: string): boolean {
+  return (
+    path === cookiePath ||
+    (path.startsWith(cookiePath) && (cookiePath.endsWith('/') || path[cookiePath.length] === '/'))
+  )
+}
+
+/**
+ * Gets the path a cookie without a Path attribute applies to: the directory of the
+ * request path
+ * @param path - Request path
+ * @returns Default cookie path
+ */
+function defaultPath(path: string): string {
+  const slash = path.lastIndexOf('/')
+  return slash > 0 ? path.slice(0, slash) : '/'
+}
+
+/**
+ * Parses a Set-Cookie header. Max-Age takes precedence over Expires; a cookie
+ * whose Domain does not cover the request host is rejected.
+ * @param header - Set-Cookie header value
+ * @param url - URL of the request the response answered
+ * @param now - Current time in epoch milliseconds
+ * @returns Cookie, or null if the header is invalid or rejected
+ */
+export function parseSetCookie(header: string, url: URL, now: number): Cookie | null {
+  const [pair = '', ...attributes] = header.split(';')
+  const separator = pair.indexOf('=')
+  const name = pair.slice(0, separator).trim()
+  if (separator === -1 || name === '') {
+    return null
+  }
+
+  const host = cookieHost(url)
+  const cookie: Cookie = {
+    name,
+    value: pair.slice(separator + 1).trim(),
+    domain: host,
+    hostOnly: true,
+    path: defaultPath(url.pathname),
+    secure: false,
+    expires: null
+  }
+  let maxAge: number | null = null
+
+  for (const attribute of attributes) {
+    const separatorAt = attribute.indexOf('=')
+    const key = (separatorAt === -1 ? attribute : attribute.slice(0, separatorAt))
+      .trim()
+      .toLowerCase()
+    const value = separatorAt === -1 ? '' : attribute.slice(separatorAt + 1).trim()
+
+    switch (key) {
+      case 'domain': {
+        const domain = value.replace(/^\./, '').toLowerCase()
+        if (domain !== '') {
+          if (!domainMatches(host, domain)) {
+            return null
+          }
+          cookie.domain = domain
+          cookie.hostOnly = false
+        }
+        break
+      }
+      case 'path':
+        if (value.startsWith('/')) {
+          cookie.path = value
+        }
+        break
+      case 'expires': {
+        const expires = Date.parse(value)
+        if (!Number.isNaN(expires)) {
+          cookie.expires = expires
+        }
+        break
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(value)) {
+          maxAge = parseInt(value, 10)
+        }
+        break
+      case 'secure':
+        cookie.secure = true
+        break
+    }
+  }
+
+  if (maxAge !== null) {
+    cookie.expires = now + maxAge * 1000
+  }
+
+  return cookie
+}
+
+/**
+ * Loads the cookies of a Netscape cookie file, as written by curl and browser
+ * extensions: one cookie per line with seven tab-separated fields
+ * @param file - Path to the cookie file
+ * @returns Cookies, without the ones that have already expired
+ */
+export function loadCookieFile(file: string): Cookie[] {
+  let text: string
+  try {
+    text = readFileSync(file, 'utf-8')
+  } catch {
+    throw new Error(`Cannot read cookie file "${file}"`)
+  }
+
+  const now = Date.now()
+
+  return text
+    .split(/\r?\n/)
+    .map((line, index) => ({
+      line: line.startsWith(HTTP_ONLY_PREFIX) ? line.slice(HTTP_ONLY_PREFIX.length) : line,
+      number: index + 1
+    }))
+    .filter(({ line }) => line.trim() !== '' && !line.startsWith('#'))
+    .map(({ line, number }) => {
+      const [domain = '', subdomains, path = '', secure, expires, name = '', ...value] =
+        line.split('\t')
+      if (value.length === 0 || name === '' || !/^\d+$/.test(expires ?? '')) {
+        throw new Error(`Invalid cookie on line ${number} of cookie file`)
+      }
+
+      return {
+        name,
+        value: value.join('\t'),
+        domain: domain.replace(/^\./, '').toLowerCase(),
+        hostOnly: subdomains !== 'TRUE',
+        path: path.startsWith('/') ? path : '/',
+        secure: secure === 'TRUE',
+        // Session cookies have an expiry of 0
+        expires: expires === '0' ? null : parseInt(expires ?? '', 10) * 1000
+      }
+    })
+    .filter(cookie => cookie.expires === null || cookie.expires > now)
+}
+
+/**
+ * Cookies of one virtual user: stores the cookies responses set and picks the
+ * ones to send with each request by domain, path, expiry and the Secure flag
+ */
+export class CookieJar {
+  private cookies: Cookie[]
+
+  /**
+   * Creates a cookie jar
+   * @param seed - Cookies the jar starts with
+   */
+  constructor(seed: Cookie[] = []) {
+    this.cookies = [...seed]
+  }
+
+  /**
+   * Stores the cookies set by a response. A cookie replaces the one with the same
+   * name, domain and path; one that has already expired only removes it.
+   * @param url - URL of the request the response answered
+   * @param setCookie - Set-Cookie response header
+   */
+  store(url: URL, setCookie: string | string[] | undefined): void {
+    if (setCookie === undefined) {
+      return
+    }
+
+    const now = Date.now()
+    for (const header of Array.isArray(setCookie) ? setCookie : [setCookie]) {
+      const cookie = parseSetCookie(header, url, now)
+      if (cookie === null) {
+        continue
+      }
+
+      this.cookies = this.cookies.filter(
+        stored =>
+          stored.name !== cookie.name ||
+          stored.domain !== cookie.domain ||
+          stored.path !== cookie.path
+      )
+      if (cookie.expires === null || cookie.expires > now) {
+        this.cookies.push(cookie)
+      }
+    }
+  }
+
+  /**
+   * Builds the Cookie header for a request, with more specific paths first
+   * @param url - Request URL
+   * @returns Cookie header value, or null if no cookie applies
+   */
+  header(url: URL): string | null {
+    const now = Date.now()
+    const host = cookieHost(url)
+    const secure = url.protocol === 'https:'
+
+    this.cookies = this.cookies.filter(cookie => cookie.expires === null || cookie.expires > now)
+    const matching = this.cookies.filter(
+      cookie =>
+        (cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain)) &&
+        pathMatches(url.pathname, cookie.path) &&
+        (!cookie.secure || secure)
+    )
+
+    if (matching.length === 0) {
+      return null
+    }
+
+    return matching
+      .sort((a, b) => b.path.length - a.path.length)
+      .map(cookie => `${cookie.name}=${cookie.value}`)
+      .join('; ')
+  }
+}
@@ -0,0 +1,476 @@
+import { connect as connectHttp2, constants } from 'node:http2'
+import type {
+  ClientHttp2Session,
+  IncomingHttpHeaders,
+  OutgoingHttpHeaders,
+  Settings
+} from 'node:http2'
+import { connect as connectTcp, isIP } from 'node:net'
+import type { Socket } from 'node:net'
+import { connect as connectTls } from 'node:tls'
+
+import type { HttpMethod, TlsConfig } from '../../types.js'
+import { watchConnection } from './client.js'
+import type { ConnectionTimings, HttpResponse, RequestClient } from './client.js'
+import { toTlsOptions } from './tls.js'
+
+/**
+ * HTTP/2 client configuration. With `socketPath` set, sessions connect to that Unix
+ * domain socket instead of the URL's host.
+ */
+export type Http2ClientConfig = {
+  baseUrl: string
+  sessions: number
+  maxConcurrentStreams: number
+  timeout: number
+  tls: TlsConfig | null
+  socketPath: string | null
+  onConnection?: (timings: ConnectionTimings) => void
+  onReuse?: () => void
+  onServerClose?: () => void
+}
+
+/**
+ * One HTTP/2 connection of the client and the streams currently open on it.
+ * `fresh` marks a session that has not carried a stream yet.
+ */
+type SessionSlot = {
+  session: Promise<ClientHttp2Session> | null
+  active: number
+  limit: number
+  fresh: boolean
+}
+
+/**
+ * Connection-specific headers that HTTP/2 forbids
+ */
+const CONNECTION_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-connection',
+  'transfer-encoding',
+  'upgrade'
+])
+
+/**
+ * Raised when a server answers an HTTP/2 connection with another protocol. Unlike
+ * other request errors it ends the run instead of being counted.
+ */
+export class ProtocolDowngradeError extends Error {
+  /**
+   * Creates a protocol downgrade error
+   * @param message - Error message
+   */
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProtocolDowngradeError'
+  }
+}
+
+/**
+ * Converts request headers to HTTP/2 headers, dropping connection-specific ones
+ * and sending Host as the :authority pseudo-header
+ * @param method - HTTP method
+ * @param path - Request path
+ * @param headers - Request headers
+ * @returns HTTP/2 request headers
+ */
+function toHttp2Headers(
+  method: HttpMethod,
+  path: string,
+  headers: Record<string, string>
+): OutgoingHttpHeaders {
+  const result: OutgoingHttpHeaders = { ':method': method, ':path': path }
+
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase()
+    if (lower === 'host') {
+      result[':authority'] = value
+    } else if (!CONNECTION_HEADERS.has(lower)) {
+      result[lower] = value
+    }
+  }
+
+  return result
+}
+
+/**
+ * Strips the pseudo-headers from HTTP/2 response headers
+ * @param headers - HTTP/2 response headers
+ * @returns Response headers
+ */
+function fromHttp2Headers(headers: IncomingHttpHeaders): HttpResponse['headers'] {
+  const result: HttpResponse['headers'] = {}
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (!name.startsWith(':')) {
+      result[name] = value
+    }
+  }
+
+  return result
+}
+
+/**
+ * HTTP/2 client multiplexing requests as streams over a fixed number of sessions.
+ * Requests beyond the stream limit of every session wait in the client's queue.
+ */
+export class Http2Client implements RequestClient {
+  private readonly url: URL
+  private readonly timeout: number
+  private readonly maxConcurrentStreams: number
+  private readonly tls: TlsConfig | null
+  private readonly socketPath: string | null
+  private readonly onConnection: ((timings: ConnectionTimings) => void) | undefined
+  private readonly onReuse: (() => void) | undefined
+  private readonly onServerClose: (() => void) | undefined
+  private readonly slots: SessionSlot[]
+  private readonly waiting: Array<(slot: SessionSlot) => void> = []
+  private readonly sessions: Set<ClientHttp2Session> = new Set()
+  private protocol: string | null = null
+  private closing: boolean = false
+
+  /**
+   * Creates a new HTTP/2 client
+   * @param config - Client configuration
+   */
+  constructor(config: Http2ClientConfig) {
+    this.url = new URL(config.baseUrl)
+    this.timeout = config.timeout
+    this.maxConcurrentStreams = config.maxConcurrentStreams
+    this.tls = config.tls
+    this.socketPath = config.socketPath
+    this.onConnection = config.onConnection
+    this.onReuse = config.onReuse
+    this.onServerClose = config.onServerClose
+    this.slots = Array.from({ length: config.sessions }, () => ({
+      session: null,
+      active: 0,
+      limit: config.maxConcurrentStreams,
+      fresh: false
+    }))
+  }
+
+  /**
+   * Executes an HTTP request as an HTTP/2 stream and measures latency, split the
+   * same way as over HTTP/1.1
+   * @param method - HTTP method
+   * @param path - Request path
+   * @param headers - Request headers
+   * @param body - Request body
+   * @param keepBody - Whether to return the response body (otherwise only its size is kept)
+   * @returns Response with status, bytes, and latency
+   */
+  async execute(
+    method: HttpMethod,
+    path: string,
+    headers: Record<string, string>,
+    body: string | Buffer | null,
+    keepBody: boolean = false
+  ): Promise<HttpResponse> {
+    const start = process.hrtime.bigint()
+    const slot = await this.acquire()
+
+    try {
+      const session = await this.connect(slot)
+      const dispatchedAt = process.hrtime.bigint()
+
+      if (slot.fresh) {
+        slot.fresh = false
+      } else {
+        this.onReuse?.()
+      }
+
+      return await new Promise<HttpResponse>((resolve, reject) => {
+        const stream = session.request(toHttp2Headers(method, path, headers), {
+          endStream: body === null
+        })
+        const chunks: Buffer[] = []
+        let bytes = 0
+        let headersAt = dispatchedAt
+        let responseHeaders: IncomingHttpHeaders = {}
+
+        stream.setTimeout(this.timeout, () => {
+          stream.close(constants.NGHTTP2_CANCEL)
+          reject(new Error('Request timeout'))
+        })
+        stream.on('response', received => {
+          headersAt = process.hrtime.bigint()
+          responseHeaders = received
+        })
+        stream.on('data', (chunk: Buffer) => {
+          bytes += chunk.byteLength
+          if (keepBody) {
+            chunks.push(chunk)
+          }
+        })
+        stream.on('end', () => {
+          const end = process.hrtime.bigint()
+          resolve({
+            statusCode: Number(responseHeaders[':status'] ?? 0),
+            headers: fromHttp2Headers(responseHeaders),
+            bytes,
+            latencyUs: Number((end - start) / 1000n),
+            queueUs: Number((dispatchedAt - start) / 1000n),
+            wireUs: Number((end - dispatchedAt) / 1000n),
+            ttfbUs: Number((headersAt - dispatchedAt) / 1000n),
+            downloadUs: Number((end - headersAt) / 1000n),
+            body: keepBody ? Buffer.concat(chunks) : null
+          })
+        })
+        stream.on('error', reject)
+        stream.on('close', () => {
+          reject(new Error(`HTTP/2 stream closed with code ${stream.rstCode}`))
+        })
+
+        if (body !== null) {
+          stream.end(body)
+        }
+      })
+    } finally {
+      this.release(slot)
+    }
+  }
+
+  /**
+   * Gets the protocol the server negotiated: h2 over TLS, h2c over plain TCP
+   * @returns Protocol name, or null before the first session is established
+   */
+  getProtocol(): string | null {
+    return this.protocol
+  }
+
+  /**
+   * Closes all sessions once their open streams finish
+   */
+  async close(): Promise<void> {
+    this.closing = true
+    await Promise.all(
+      [...this.sessions].map(session => new Promise<void>(resolve => session.close(resolve)))
+    )
+  }
+
+  /**
+   * Destroys all sessions immediately
+   */
+  destroy(): Promise<void> {
+    this.closing = true
+    for (const session of this.sessions) {
+      session.destroy()
+    }
+    return Promise.resolve()
+  }
+
+  /**
+   * Takes a stream slot on the least busy session, waiting in the queue while
+   * every session is at its stream limit
+   * @returns Session slot
+   */
+  private acquire(): Promise<SessionSlot> {
+    let free: SessionSlot | null = null
+    for (const slot of this.slots) {
+      if (slot.active < slot.limit && (free === null || slot.active < free.active)) {
+        free = slot
+      }
+    }
+
+    if (free === null) {
+      return new Promise(resolve => this.waiting.push(resolve))
+    }
+
+    free.active++
+    return Promise.resolve(free)
+  }
+
+  /**
+   * Hands a finished stream's slot to the next queued request
+   * @param slot - Session slot
+   */
+  private release(slot: SessionSlot): void {
+    const next = slot.active <= slot.limit ? this.waiting.shift() : undefined
+    if (next !== undefined) {
+      next(slot)
+    } else {
+      slot.active--
+    }
+  }
+
+  /**
+   * Gets the session of a slot, opening it first if needed
+   * @param slot - Session slot
+   * @returns Session that has received the server's settings
+   */
+  private connect(slot: SessionSlot): Promise<ClientHttp2Session> {
+    if (slot.session !== null) {
+      return slot.session
+    }
+
+    const session = this.openSession(slot)
+    slot.session = session
+    session.catch(() => this.replaceSession(slot, session))
+
+    return session
+  }
+
+  /**
+   * Drops a slot's session so the next request opens a new one
+   * @param slot - Session slot
+   * @param session - Session that failed, closed or was told to go away
+   */
+  private replaceSession(slot: SessionSlot, session: Promise<ClientHttp2Session>): void {
+    if (slot.session === session) {
+      slot.session = null
+    }
+  }
+
+  /**
+   * Opens a session and waits for the server's settings, which prove it speaks HTTP/2
+   * @param slot - Session slot the session is for
+   * @returns Established session
+   */
+  private openSession(slot: SessionSlot): Promise<ClientHttp2Session> {
+    const secure = this.url.protocol === 'https:'
+    let connected = false
+    let timedOut = false
+    let downgrade: ProtocolDowngradeError | null = null
+
+    const opening = new Promise<ClientHttp2Session>((resolve, reject) => {
+      const session = connectHttp2(this.url.origin, {
+        createConnection: () => {
+          const socket = this.createSocket(secure)
+          socket.once(secure ? 'secureConnect' : 'connect', () => {
+            connected = true
+          })
+          return socket
+        }
+      })
+      session.once('connect', () => {
+        if (secure && session.alpnProtocol !== 'h2') {
+          downgrade = new ProtocolDowngradeError(
+            `${this.url.origin} negotiated ${session.alpnProtocol || 'HTTP/1.1'} instead of HTTP/2 (h2)`
+          )
+          session.destroy(downgrade)
+        }
+      })
+      const timer = setTimeout(() => {
+        timedOut = true
+        session.destroy(new Error('HTTP/2 connect timeout'))
+      }, this.timeout)
+
+      const fail = (err?: Error): void => {
+        clearTimeout(timer)
+        // A connection that closed before sending settings was answered by something
+        // other than HTTP/2
+        if (downgrade === null && connected && !timedOut) {
+          downgrade = new ProtocolDowngradeError(
+            `${this.url.origin} did not answer with HTTP/2${secure ? '' : ' (h2c prior knowledge)'}; the server may only support HTTP/1.1`
+          )
+        }
+        reject(downgrade ?? err ?? new Error('HTTP/2 session closed'))
+      }
+
+      session.once('error', fail)
+      session.once('close', fail)
+      session.once('remoteSettings', (settings: Settings) => {
+        clearTimeout(timer)
+        session.off('error', fail)
+        session.off('close', fail)
+        session.on('error', () => {
+          // Errors end the session's streams, which report them
+        })
+
+        let ended = false
+        const replace = (): void => {
+          this.replaceSession(slot, opening)
+          if (!ended && !this.closing) {
+            this.onServerClose?.()
+          }
+          ended = true
+        }
+        session.once('close', replace)
+        session.once('goaway', replace)
+        session.once('close', () => this.sessions.delete(session))
+        this.sessions.add(session)
+
+        // The server may allow fewer concurrent streams than configured
+        slot.limit = Math.min(
+          this.maxConcurrentStreams,
+          settings.maxConcurrentStreams ?? this.maxConcurrentStreams
+        )
+        this.protocol = session.alpnProtocol ?? (secure ? 'h2' : 'h2c')
+        slot.fresh = true
+        resolve(session)
+      })
+    })
+
+    return opening
+  }
+
+  /**
+   * Opens the socket for a session, offering HTTP/1.1 next to h2 over TLS (unless
+   * other ALPN protocols are configured) so a downgrade is detected rather than
+   * failing the handshake
+   * @param secure - Whether to connect with TLS
+   * @returns Connecting socket
+   */
+  private createSocket(secure: boolean): Socket {
+    const host = this.url.hostname.replace(/^\[(.*)\]$/, '$1')
+    const port = Number(this.url.port) || (secure ? 443 : 80)
+    // A socket path takes the place of the host and port
+    const path = this.socketPath ?? undefined
+
+    const socket = secure
+      ? connectTls({
+          host,
+          port,
+          path,
+          servername: isIP(host) === 0 ? host : undefined,
+          ALPNProtocols: ['h2', 'http/1.1'],
+          ...toTlsOptions(this.tls)
+        })
+      : connectTcp({ host, port, path })
+
+    if (this.onConnection !== undefined) {
+      watchConnection(socket, secure, this.onConnection)
+    }
+
+    return socket
+  }
+}
+
+/**
+ * Creates a standalone HTTP/2 request (for reachability checks)
+ * @param url - Full URL to request
+ * @param method - HTTP method
+ * @param headers - Request headers
+ * @param body - Request body
+ * @param timeout - Request timeout
+ * @param tls - TLS options
+ * @param socketPath - Unix domain socket to send the request over
+ * @returns Response with status, bytes, and latency
+ */
+export async function http2Request(
+  url: string,
+  method: HttpMethod,
+  headers: Record<string, string>,
+  body: string | Buffer | null,
+  timeout: number,
+  tls: TlsConfig | null = null,
+  socketPath: string | null = null
+): Promise<HttpResponse> {
+  const target = new URL(url)
+  const client = new Http2Client({
+    baseUrl: target.origin,
+    sessions: 1,
+    maxConcurrentStreams: 1,
+    timeout,
+    tls,
+    socketPath
+  })
+
+  try {
+    return await client.execute(method, `${target.pathname}${target.search}`, headers, body)
+  } finally {
+    await client.destroy()
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { proxyAuthorization, resolveProxy } from './proxy.js'
+
+/**
+ * Resolves the proxy named by the environment for a target
+ * @param url - Target URL
+ * @param env - Environment variables
+ * @returns Proxy URL, or null to connect directly
+ */
+function proxyFor(url: string, env: NodeJS.ProcessEnv): string | null {
+  return resolveProxy({ url, proxyFromEnv: true }, env)?.url ?? null
+}
+
+void describe('resolveProxy', () => {
+  void it('connects directly without a proxy setting', () => {
+    assert.equal(resolveProxy({ url: 'http://api.test/' }, { HTTP_PROXY: 'http://p:1' }), null)
+  })
+
+  void it('moves credentials from the proxy URL to auth', () => {
+    const proxy = resolveProxy({ url: 'http://api.test/', proxy: 'http://us%40er:p%3Ass@p:8080' })
+    assert.deepEqual(proxy, { url: 'http://p:8080', auth: 'us@er:p:ss' })
+    assert.ok(proxy !== null)
+    assert.equal(proxyAuthorization(proxy), `Basic ${Buffer.from('us@er:p:ss').toString('base64')}`)
+  })
+
+  void it('keeps explicit auth over credentials in the URL', () => {
+    const proxy = resolveProxy({
+      url: 'http://api.test/',
+      proxy: { url: 'http://a:b@p:8080', auth: 'c:d' }
+    })
+    assert.deepEqual(proxy, { url: 'http://p:8080', auth: 'c:d' })
+  })
+
+  void it('rejects invalid and non-HTTP proxy URLs', () => {
+    assert.throws(
+      () => resolveProxy({ url: 'http://api.test/', proxy: 'http://[bad' }),
+      /Invalid proxy URL/
+    )
+    assert.throws(
+      () => resolveProxy({ url: 'http://api.test/', proxy: 'socks5://p:1080' }),
+      /Unsupported proxy protocol socks5:/
+    )
+  })
+
+  void describe('environment lookup', () => {
+    void it('picks the proxy for the target scheme', () => {
+      const env = { HTTP_PROXY: 'http://plain:1', HTTPS_PROXY: 'http://secure:2' }
+      assert.equal(proxyFor('http://api.test/', env), 'http://plain:1')
+      assert.equal(proxyFor('https://api.test/', env), 'http://secure:2')
+      assert.equal(
+        proxyFor('https://api.test/', { HTTP_PROXY: 'http://plain:1' }),
+        'http://plain:1'
+      )
+      assert.equal(proxyFor('http://api.test/', { HTTPS_PROXY: 'http://secure:2' }), null)
+    })
+
+    void it('prefers the lowercase variables', () => {
+      const env = { http_proxy: 'http://lower:1', HTTP_PROXY: 'http://upper:2' }
+      assert.equal(proxyFor('http://api.test/', env), 'http://lower:1')
+      assert.equal(
+        proxyFor('http://api.test/', { ...env, no_proxy: 'other.test', NO_PROXY: 'api.test' }),
+        'http://lower:1'
+      )
+    })
+
+    void it('falls back to the uppercase variables when the lowercase ones are empty', () => {
+      const env = {
+        http_proxy: '',
+        HTTP_PROXY: 'http://upper:2',
+        no_proxy: '',
+        NO_PROXY: 'api.test'
+      }
+      assert.equal(proxyFor('http://other.test/', env), 'http://upper:2')
+      assert.equal(proxyFor('http://api.test/', env), null)
+    })
+
+    void it('adds the http:// scheme to bare proxy hosts', () => {
+      assert.equal(
+        proxyFor('http://api.test/', { HTTP_PROXY: 'proxy.test:3128' }),
+        'http://proxy.test:3128'
+      )
+    })
+  })
+
+  void describe('NO_PROXY', () => {
+    /**
+     * Checks whether a target goes through the proxy with a NO_PROXY list
+     * @param url - Target URL
+     * @param noProxy - NO_PROXY value
+     * @returns Whether the target is proxied
+     */
+    function proxied(url: string, noProxy: string): boolean {
+      return (
+        proxyFor(url, {
+          HTTP_PROXY: 'http://p:1',
+          HTTPS_PROXY: 'http://p:1',
+          NO_PROXY: noProxy
+        }) !== null
+      )
+    }
+
+    void it('bypasses every host with a wildcard', () => {
+      assert.equal(proxied('http://api.test/', '*'), false)
+      assert.equal(proxied('http://api.test/', 'other.test, *'), false)
+    })
+
+    void it('matches a domain and its subdomains, with or without a leading dot', () => {
+      for (const entry of ['example.com', '.example.com', '*.example.com']) {
+        assert.equal(proxied('http://example.com/', entry), false, entry)
+        assert.equal(proxied('http://api.EXAMPLE.com/', entry), false, entry)
+        assert.equal(proxied('http://notexample.com/', entry), true, entry)
+        assert.equal(proxied('http://example.com.evil.test/', entry), true, entry)
+      }
+    })
+
+    void it('matches host:port entries only on that port', () => {
+      assert.equal(proxied('http://api.test:8080/', 'api.test:8080'), false)
+      assert.equal(proxied('http://api.test:8081/', 'api.test:8080'), true)
+      assert.equal(proxied('http://api.test/', 'api.test:80'), false)
+      assert.equal(proxied('https://api.test/', 'api.test:443'), false)
+      assert.equal(proxied('https://api.test/', 'api.test:80'), true)
+    })
+
+    void it('matches IP addresses, with IPv6 in brackets when a port follows', () => {
+      assert.equal(proxied('http://10.0.0.1/', '10.0.0.1'), false)
+      assert.equal(proxied('http://10.0.0.12/', '10.0.0.1'), true)
+      assert.equal(proxied('http://[::1]:8080/', '[::1]:8080'), false)
+      assert.equal(proxied('http://[::1]/', '::1'), false)
+    })
+
+    void it('splits the list on commas and whitespace', () => {
+      assert.equal(proxied('http://b.test/', ' a.test ,\tb.test  c.test'), false)
+    })
+  })
+})
@@ -0,0 +1,182 @@
+import { connect } from 'node:net'
+import type { Socket } from 'node:net'
+
+import type { BenchConfig, ProxyConfig } from '../../types.js'
+
+/**
+ * One NO_PROXY entry: a host name, domain suffix or IP address (IPv6 in brackets
+ * when a port follows), with an optional port
+ */
+const NO_PROXY_ENTRY_PATTERN = /^(?:\[(.+)\]|([^:]+))(?::(\d+))?$/
+
+/**
+ * Reads the proxy for a target from the conventional environment variables, with
+ * the lowercase names taking precedence as in curl and undici and empty ones ignored
+ * @param target - Target URL
+ * @param env - Environment variables
+ * @returns Proxy, or null if none is set for the target's scheme
+ */
+function proxyFromEnv(target: URL, env: NodeJS.ProcessEnv): ProxyConfig | null {
+  const httpProxy = env.http_proxy || env.HTTP_PROXY
+  const url =
+    target.protocol === 'https:' ? env.https_proxy || env.HTTPS_PROXY || httpProxy : httpProxy
+
+  if (url === undefined || url === '') {
+    return null
+  }
+
+  return {
+    url: url.includes('://') ? url : `http://${url}`,
+    noProxy: env.no_proxy || env.NO_PROXY || ''
+  }
+}
+
+/**
+ * Checks whether a target bypasses the proxy, i.e. its host (and port) is in a
+ * NO_PROXY-style list. Domain entries also match subdomains; `*` matches every host.
+ * @param target - Target URL
+ * @param noProxy - Comma- or space-separated hosts
+ * @returns Whether to connect directly
+ */
+function bypassesProxy(target: URL, noProxy: string): boolean {
+  const host = target.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase()
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80')
+
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(entry => entry !== '')
+    .some(entry => {
+      if (entry === '*') {
+        return true
+      }
+
+      const match = NO_PROXY_ENTRY_PATTERN.exec(entry)
+      const name = (match?.[1] ?? match?.[2] ?? entry).toLowerCase()
+      const domain = name.replace(/^\*?\./, '')
+      if (match?.[3] !== undefined && match[3] !== port) {
+        return false
+      }
+
+      return host === domain || host.endsWith(`.${domain}`)
+    })
+}
+
+/**
+ * Resolves the proxy a target's traffic goes through: the configured proxy, or with
+ * `proxyFromEnv` the one named by HTTPS_PROXY/HTTP_PROXY, unless the target is in
+ * the NO_PROXY list. Credentials in the proxy URL are moved to `auth`.
+ * @param config - Benchmark configuration
+ * @param env - Environment variables read with `proxyFromEnv`
+ * @returns Proxy with a URL free of credentials, or null to connect directly
+ */
+export function resolveProxy(
+  config: BenchConfig,
+  env: NodeJS.ProcessEnv = process.env
+): ProxyConfig | null {
+  if (config.proxy === undefined && !config.proxyFromEnv) {
+    return null
+  }
+
+  const target = new URL(config.url)
+  const proxy =
+    typeof config.proxy === 'string'
+      ? { url: config.proxy }
+      : (config.proxy ?? (config.proxyFromEnv ? proxyFromEnv(target, env) : null))
+
+  if (proxy === null || bypassesProxy(target, proxy.noProxy ?? '')) {
+    return null
+  }
+
+  let url: URL
+  try {
+    url = new URL(proxy.url)
+  } catch {
+    throw new Error(`Invalid proxy URL "${proxy.url}"`)
+  }
+  if (url.protocol !== 'http:') {
+    throw new Error(
+      `Unsupported proxy protocol ${url.protocol} - only http:// proxies are supported`
+    )
+  }
+
+  const credentials =
+    url.username !== ''
+      ? `${decodeURIComponent(url.username)}:${decodeURIComponent(url.password)}`
+      : undefined
+  const auth = proxy.auth ?? credentials
+
+  return auth !== undefined ? { url: url.origin, auth } : { url: url.origin }
+}
+
+/**
+ * Builds the Proxy-Authorization header value for a proxy's credentials
+ * @param proxy - Proxy
+ * @returns Basic authorization, or null if the proxy needs none
+ */
+export function proxyAuthorization(proxy: ProxyConfig): string | null {
+  return proxy.auth !== undefined ? `Basic ${Buffer.from(proxy.auth).toString('base64')}` : null
+}
+
+/**
+ * Opens a tunnel to a host through the proxy with a CONNECT request
+ * @param proxy - Proxy
+ * @param authority - host:port to tunnel to
+ * @param timeout - Timeout in milliseconds
+ * @returns Socket carrying the tunnel, paused until the caller reads from it
+ */
+export function openTunnel(
+  proxy: ProxyConfig,
+  authority: string,
+  timeout: number
+): Promise<Socket> {
+  const url = new URL(proxy.url)
+  const authorization = proxyAuthorization(proxy)
+
+  return new Promise((resolve, reject) => {
+    const socket = connect({
+      host: url.hostname.replace(/^\[(.*)\]$/, '$1'),
+      port: Number(url.port) || 80
+    })
+    let response = Buffer.alloc(0)
+
+    const fail = (err: Error): void => {
+      socket.destroy()
+      reject(err)
+    }
+    const onEnd = (): void => {
+      fail(new Error('Proxy closed the connection before opening the tunnel'))
+    }
+    const onData = (chunk: Buffer): void => {
+      response = Buffer.concat([response, chunk])
+      const end = response.indexOf('\r\n\r\n')
+      if (end === -1) {
+        return
+      }
+
+      socket.off('data', onData)
+      socket.off('error', fail)
+      socket.off('end', onEnd)
+      socket.setTimeout(0)
+      socket.pause()
+
+      const status = /^HTTP\/1\.[01] (\d{3})/.exec(response.toString('latin1', 0, end))?.[1]
+      if (status !== '200') {
+        fail(new Error(`Proxy refused the tunnel to ${authority} (HTTP ${status ?? 'unknown'})`))
+        return
+      }
+      if (end + 4 < response.length) {
+        socket.unshift(response.subarray(end + 4))
+      }
+      resolve(socket)
+    }
+
+    socket.setTimeout(timeout, () => fail(new Error('Proxy tunnel timeout')))
+    socket.once('connect', () => {
+      const auth = authorization !== null ? `Proxy-Authorization: ${authorization}\r\n` : ''
+      socket.write(`CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n${auth}\r\n`)
+    })
+    socket.on('data', onData)
+    socket.on('error', fail)
+    socket.on('end', onEnd)
+  })
+}
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { createStatusPolicy, normalizeStatusList } from './status.js'
+
+void describe('normalizeStatusList', () => {
+  void it('trims, lowercases and drops empty entries', () => {
+    assert.equal(normalizeStatusList(' 2XX, 404 ,,200-204 '), '2xx,404,200-204')
+  })
+})
+
+void describe('createStatusPolicy', () => {
+  void it('accepts whole status classes', () => {
+    const isSuccess = createStatusPolicy('2xx')
+    assert.deepEqual(
+      [199, 200, 204, 299, 300].map(code => isSuccess(code)),
+      [false, true, true, true, false]
+    )
+  })
+
+  void it('accepts explicit codes and ranges alongside classes', () => {
+    const isSuccess = createStatusPolicy('2XX, 404, 301-302')
+    assert.deepEqual(
+      [200, 301, 302, 303, 404, 405, 500].map(code => isSuccess(code)),
+      [true, true, true, false, true, false, false]
+    )
+  })
+
+  void it('accepts a single-code range', () => {
+    const isSuccess = createStatusPolicy('418-418')
+    assert.equal(isSuccess(418), true)
+    assert.equal(isSuccess(419), false)
+  })
+
+  for (const spec of ['6xx', '2x', '20', '2000', 'ok', '200-', '200 404']) {
+    void it(`rejects "${spec}"`, () => {
+      assert.throws(() => createStatusPolicy(spec), /Invalid success status/)
+    })
+  }
+
+  void it('rejects reversed ranges', () => {
+    assert.throws(() => createStatusPolicy('299-200'), /Invalid success status range "299-200"/)
+  })
+
+  void it('rejects an empty list', () => {
+    assert.throws(() => createStatusPolicy(' , '), /The success status list is empty/)
+  })
+})
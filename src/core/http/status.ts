@@ -0,0 +1,64 @@
+/**
+ * Decides whether a response status code counts as successful
+ */
+export type StatusPolicy = (statusCode: number) => boolean
+
+/**
+ * One entry of a status list: a code (404), a class (2xx) or a range (200-299)
+ */
+const STATUS_ENTRY_PATTERN = /^(?:([1-5])xx|(\d{3})(?:-(\d{3}))?)$/
+
+/**
+ * Normalizes a success status list, e.g. " 2XX, 404 " to "2xx,404"
+ * @param spec - Comma-separated status codes, classes and ranges
+ * @returns Normalized list
+ */
+export function normalizeStatusList(spec: string): string {
+  return spec
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(entry => entry !== '')
+    .join(',')
+}
+
+/**
+ * Compiles a success status list such as 2xx,3xx,404 or 200-299
+ * @param spec - Comma-separated status codes, classes and ranges
+ * @returns Status policy
+ */
+export function createStatusPolicy(spec: string): StatusPolicy {
+  const ranges = normalizeStatusList(spec)
+    .split(',')
+    .filter(entry => entry !== '')
+    .map(entry => {
+      const match = STATUS_ENTRY_PATTERN.exec(entry)
+      if (match === null) {
+        throw new Error(`Invalid success status "${entry}": expected e.g. 200, 2xx or 200-299`)
+      }
+
+      if (match[1] !== undefined) {
+        const base = parseInt(match[1], 10) * 100
+        return [base, base + 99]
+      }
+
+      const min = parseInt(match[2] ?? '', 10)
+      const max = match[3] !== undefined ? parseInt(match[3], 10) : min
+      if (max < min) {
+        throw new Error(`Invalid success status range "${entry}"`)
+      }
+      return [min, max]
+    })
+
+  if (ranges.length === 0) {
+    throw new Error('The success status list is empty')
+  }
+
+  const codes = new Set<number>()
+  for (const [min = 0, max = 0] of ranges) {
+    for (let code = min; code <= max; code++) {
+      codes.add(code)
+    }
+  }
+
+  return statusCode => codes.has(statusCode)
+}
@@ -0,0 +1,32 @@
+import type { BenchConfig } from '../../types.js'
+
+/**
+ * Unix domain socket target: unix:<socket path>[:<request path>], e.g.
+ * unix:/var/run/app.sock:/api/items
+ */
+const UNIX_TARGET_PATTERN = /^unix:([^:]+)(?::(\/.*))?$/
+
+/**
+ * Splits a unix: target into the socket path and an http://localhost URL for the
+ * request path, which is what the clients send over the socket. Other targets are
+ * returned unchanged.
+ * @param config - Benchmark configuration
+ * @returns Configuration with an HTTP URL and the socket path set
+ */
+export function resolveSocketTarget(config: BenchConfig): BenchConfig {
+  if (!config.url.startsWith('unix:')) {
+    return config
+  }
+
+  const match = UNIX_TARGET_PATTERN.exec(config.url)
+  if (match === null) {
+    throw new Error(`Invalid Unix socket target "${config.url}": expected unix:/path/to.sock:/path`)
+  }
+
+  const socketPath = match[1] ?? ''
+  if (config.socketPath !== undefined && config.socketPath !== socketPath) {
+    throw new Error('The target names a different Unix socket than the socket path option')
+  }
+
+  return { ...config, url: `http://localhost${match[2] ?? '/'}`, socketPath }
+}
@@ -0,0 +1,158 @@
+import { isIP } from 'node:net'
+import { connect } from 'node:tls'
+import type { ConnectionOptions } from 'node:tls'
+
+import type { ProxyConfig, TlsConfig, TlsInfo } from '../../types.js'
+import { TLS_PROBE_HANDSHAKES, TLS_TICKET_WAIT_MS } from '../../constants.js'
+import { openTunnel } from './proxy.js'
+
+/**
+ * Outcome of one TLS handshake of a probe
+ */
+type Handshake = {
+  version: string
+  cipher: string
+  alpnProtocol: string | null
+  reused: boolean
+  validTo: string | null
+  session: Buffer | null
+}
+
+/**
+ * How a TLS probe reaches its target: offering h2 via ALPN when the benchmark will,
+ * and over a Unix socket or through a proxy's tunnel when set
+ */
+export type TlsProbeOptions = {
+  tls: TlsConfig | null
+  http2: boolean
+  timeout: number
+  socketPath: string | null
+  proxy: ProxyConfig | null
+}
+
+/**
+ * Converts TLS options to Node's TLS connection options, leaving out the ones not
+ * set so they do not override defaults
+ * @param tls - TLS options
+ * @returns TLS connection options
+ */
+export function toTlsOptions(tls: TlsConfig | null): ConnectionOptions {
+  const options: ConnectionOptions = {}
+
+  if (tls === null) {
+    return options
+  }
+  if (tls.ca !== undefined) {
+    options.ca = tls.ca
+  }
+  if (tls.cert !== undefined) {
+    options.cert = tls.cert
+  }
+  if (tls.key !== undefined) {
+    options.key = tls.key
+  }
+  if (tls.rejectUnauthorized !== undefined) {
+    options.rejectUnauthorized = tls.rejectUnauthorized
+  }
+  if (tls.servername !== undefined) {
+    options.servername = tls.servername
+  }
+  if (tls.alpnProtocols !== undefined) {
+    options.ALPNProtocols = tls.alpnProtocols
+  }
+
+  return options
+}
+
+/**
+ * Performs one TLS handshake and closes the connection, waiting briefly for the
+ * session ticket TLS 1.3 servers send after the handshake
+ * @param options - TLS connection options
+ * @param timeout - Timeout in milliseconds
+ * @returns Negotiated parameters and the session to resume
+ */
+function handshake(options: ConnectionOptions, timeout: number): Promise<Handshake> {
+  return new Promise((resolve, reject) => {
+    const socket = connect(options)
+    let result: Omit<Handshake, 'session'> | null = null
+    let session: Buffer | null = null
+
+    socket.setTimeout(timeout, () => socket.destroy(new Error('TLS handshake timeout')))
+    socket.on('session', (ticket: Buffer) => {
+      session = ticket
+    })
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate()
+      result = {
+        version: socket.getProtocol() ?? 'unknown',
+        cipher: socket.getCipher().name,
+        alpnProtocol: socket.alpnProtocol || null,
+        reused: socket.isSessionReused(),
+        validTo: 'valid_to' in certificate ? certificate.valid_to : null
+      }
+      setTimeout(() => socket.destroy(), TLS_TICKET_WAIT_MS)
+    })
+    socket.once('error', reject)
+    socket.once('close', () => {
+      if (result !== null) {
+        resolve({ ...result, session })
+      } else {
+        reject(new Error('TLS connection closed during the handshake'))
+      }
+    })
+    socket.resume()
+  })
+}
+
+/**
+ * Probes the TLS setup of a target: one full handshake followed by handshakes that
+ * try to resume its session
+ * @param url - HTTPS URL
+ * @param probe - TLS options and how to reach the target
+ * @returns TLS version, cipher, ALPN protocol, resumption rate and certificate expiry
+ */
+export async function probeTls(url: string, probe: TlsProbeOptions): Promise<TlsInfo> {
+  const { proxy, timeout } = probe
+  const target = new URL(url)
+  const host = target.hostname.replace(/^\[(.*)\]$/, '$1')
+  const port = Number(target.port) || 443
+  const options: ConnectionOptions = {
+    host,
+    port,
+    path: probe.socketPath ?? undefined,
+    servername: isIP(host) === 0 ? host : undefined,
+    ALPNProtocols: probe.http2 ? ['h2', 'http/1.1'] : ['http/1.1'],
+    ...toTlsOptions(probe.tls)
+  }
+  const connectOptions = async (): Promise<ConnectionOptions> =>
+    proxy !== null
+      ? { ...options, socket: await openTunnel(proxy, `${target.hostname}:${port}`, timeout) }
+      : options
+
+  const first = await handshake(await connectOptions(), timeout)
+  let session = first.session
+  let resumed = 0
+
+  for (let i = 1; i < TLS_PROBE_HANDSHAKES; i++) {
+    const next = await handshake(
+      { ...(await connectOptions()), session: session ?? undefined },
+      timeout
+    )
+    if (next.reused) {
+      resumed++
+    }
+    session = next.session ?? session
+  }
+
+  const expiry = first.validTo !== null ? new Date(first.validTo) : null
+
+  return {
+    version: first.version,
+    cipher: first.cipher,
+    alpnProtocol: first.alpnProtocol,
+    resumptionRate: Math.round((resumed / (TLS_PROBE_HANDSHAKES - 1)) * 100) / 100,
+    certificateExpiry: expiry !== null ? expiry.toISOString() : null,
+    certificateDaysLeft:
+      expiry !== null ? Math.floor((expiry.getTime() - Date.now()) / 86_400_000) : null
+  }
+}
@@ -1,6 +1,18 @@
-import type { MetricsSnapshot, ErrorBreakdown, LatencyStats } from '../../types.js'
+import type {
+  MetricsDelta,
+  MetricsSnapshot,
+  ErrorBreakdown,
+  ExpectationFailures,
+  LatencyStats,
+  HistogramConfig,
+  QueueStats,
+  ConnectionStats,
+  TimingHistograms,
+  TimingStats
+} from '../../types.js'
 import { Histogram } from './histogram.js'
-import { calculatePercentiles, formatLatencyStats } from './percentiles.js'
+import { calculatePercentiles, formatLatencyStats, roundTo } from './percentiles.js'
+import { createEmptyConnectionStats, createEmptyExpectationFailures } from '../worker/messages.js'
 
 /**
  * Aggregated metrics from all workers
@@ -9,46 +21,171 @@ export type AggregatedMetrics = {
   totalRequests: number
   successfulRequests: number
   failedRequests: number
+  missedRequests: number
   totalBytes: number
   latency: LatencyStats
+  uncorrectedLatency: LatencyStats | null
   errors: ErrorBreakdown
+  warmup: AggregatedMetrics | null
+  ramp: AggregatedMetrics | null
+  stages: AggregatedMetrics[] | null
+  iterations: number
+  steps: AggregatedStepMetrics[] | null
+  endpoints: AggregatedMetrics[] | null
+  timings: TimingStats | null
+  queue: QueueStats | null
+  connectionStats: ConnectionStats
+  protocol: string | null
+}
+
+/**
+ * Aggregated metrics for one scenario step
+ */
+export type AggregatedStepMetrics = AggregatedMetrics & {
+  expectations: ExpectationFailures
 }
 
 /**
  * Aggregates metrics from multiple workers
  */
 export class MetricsAggregator {
-  private readonly histogram: Histogram = new Histogram()
+  private readonly histogramConfig: HistogramConfig | undefined
+  private readonly histogram: Histogram
+  private readonly uncorrectedHistogram: Histogram
+  private hasUncorrected: boolean = false
   private totalRequests: number = 0
   private successfulRequests: number = 0
   private failedRequests: number = 0
+  private missedRequests: number = 0
   private totalBytes: number = 0
   private timeouts: number = 0
   private connectionErrors: number = 0
   private readonly statusCodes: Map<number, number> = new Map()
+  private readonly assertions: Map<string, number> = new Map()
+  private warmup: MetricsAggregator | null = null
+  private ramp: MetricsAggregator | null = null
+  private stages: MetricsAggregator[] = []
+  private iterations: number = 0
+  private steps: MetricsAggregator[] = []
+  private stepExpectations: ExpectationFailures[] = []
+  private endpoints: MetricsAggregator[] = []
+  private timings: Record<keyof TimingHistograms, Histogram> | null = null
+  private connectionStats: ConnectionStats = createEmptyConnectionStats()
+  private protocol: string | null = null
+
+  /**
+   * Creates a metrics aggregator
+   * @param histogramConfig - Histogram layout, which must match the workers' histograms
+   */
+  constructor(histogramConfig?: HistogramConfig) {
+    this.histogramConfig = histogramConfig
+    this.histogram = new Histogram(histogramConfig)
+    this.uncorrectedHistogram = new Histogram(histogramConfig)
+  }
 
   /**
    * Adds a metrics snapshot from a worker
    * @param snapshot - Worker metrics snapshot
    */
   addSnapshot(snapshot: MetricsSnapshot): void {
-    this.totalRequests += snapshot.requests
-    this.successfulRequests += snapshot.successful
-    this.failedRequests += snapshot.failed
-    this.totalBytes += snapshot.bytes
+    this.addDelta(snapshot)
+    this.missedRequests += snapshot.missed
+    this.iterations += snapshot.iterations
+
+    if (snapshot.warmup !== null) {
+      this.warmup ??= new MetricsAggregator(this.histogramConfig)
+      this.warmup.addDelta(snapshot.warmup)
+    }
+
+    if (snapshot.ramp !== null) {
+      this.ramp ??= new MetricsAggregator(this.histogramConfig)
+      this.ramp.addDelta(snapshot.ramp)
+    }
+
+    snapshot.stages?.forEach((delta, index) => {
+      const stage = (this.stages[index] ??= new MetricsAggregator(this.histogramConfig))
+      stage.addDelta(delta)
+    })
+
+    snapshot.steps?.forEach((delta, index) => {
+      const step = (this.steps[index] ??= new MetricsAggregator(this.histogramConfig))
+      step.addDelta(delta)
+
+      const expectations = (this.stepExpectations[index] ??= createEmptyExpectationFailures())
+      expectations.status += delta.expectations.status
+      expectations.maxLatency += delta.expectations.maxLatency
+      expectations.capture += delta.expectations.capture
+    })
+
+    snapshot.endpoints?.forEach((delta, index) => {
+      const endpoint = (this.endpoints[index] ??= new MetricsAggregator(this.histogramConfig))
+      endpoint.addDelta(delta)
+    })
+
+    if (snapshot.timings !== null) {
+      this.addTimings(snapshot.timings)
+    }
+
+    this.connectionStats.opened += snapshot.connectionStats.opened
+    this.connectionStats.reused += snapshot.connectionStats.reused
+    this.connectionStats.closedByServer += snapshot.connectionStats.closedByServer
+    this.protocol ??= snapshot.protocol
+  }
+
+  /**
+   * Adds latency phase, queue wait and wire time histograms
+   * @param timings - Histogram per phase, null for phases without values
+   */
+  private addTimings(timings: TimingHistograms): void {
+    this.timings ??= {
+      queue: new Histogram(this.histogramConfig),
+      wire: new Histogram(this.histogramConfig),
+      dns: new Histogram(this.histogramConfig),
+      connect: new Histogram(this.histogramConfig),
+      tls: new Histogram(this.histogramConfig),
+      ttfb: new Histogram(this.histogramConfig),
+      download: new Histogram(this.histogramConfig)
+    }
+
+    for (const [phase, histogram] of Object.entries(this.timings)) {
+      const delta = timings[phase as keyof TimingHistograms]
+      if (delta !== null) {
+        histogram.import(delta)
+      }
+    }
+  }
+
+  /**
+   * Adds a metrics delta
+   * @param delta - Metrics recorded since the previous delta
+   */
+  addDelta(delta: MetricsDelta): void {
+    this.totalRequests += delta.requests
+    this.successfulRequests += delta.successful
+    this.failedRequests += delta.failed
+    this.totalBytes += delta.bytes
+
+    if (delta.histogram !== null) {
+      this.histogram.import(delta.histogram)
+    }
 
-    for (const latency of snapshot.latencies) {
-      this.histogram.record(latency)
+    if (delta.uncorrectedHistogram !== null) {
+      this.uncorrectedHistogram.import(delta.uncorrectedHistogram)
+      this.hasUncorrected = true
     }
 
-    this.timeouts += snapshot.errors.timeouts
-    this.connectionErrors += snapshot.errors.connectionErrors
+    this.timeouts += delta.errors.timeouts
+    this.connectionErrors += delta.errors.connectionErrors
 
-    for (const [code, count] of Object.entries(snapshot.errors.byStatusCode)) {
+    for (const [code, count] of Object.entries(delta.errors.byStatusCode)) {
       const statusCode = parseInt(code, 10)
       const existing = this.statusCodes.get(statusCode) ?? 0
       this.statusCodes.set(statusCode, existing + count)
     }
+
+    for (const [name, count] of Object.entries(delta.errors.assertions ?? {})) {
+      this.assertions.set(name, (this.assertions.get(name) ?? 0) + count)
+    }
   }
 
   /**
@@ -65,13 +202,85 @@ export class MetricsAggregator {
       totalRequests: this.totalRequests,
       successfulRequests: this.successfulRequests,
       failedRequests: this.failedRequests,
+      missedRequests: this.missedRequests,
       totalBytes: this.totalBytes,
       latency: formatLatencyStats(calculatePercentiles(this.histogram)),
+      uncorrectedLatency: this.hasUncorrected
+        ? formatLatencyStats(calculatePercentiles(this.uncorrectedHistogram))
+        : null,
       errors: {
         timeouts: this.timeouts,
         connectionErrors: this.connectionErrors,
-        byStatusCode
-      }
+        byStatusCode,
+        assertions: Object.fromEntries(this.assertions)
+      },
+      warmup: this.warmup?.getMetrics() ?? null,
+      ramp: this.ramp?.getMetrics() ?? null,
+      stages: this.stages.length > 0 ? this.stages.map(stage => stage.getMetrics()) : null,
+      iterations: this.iterations,
+      steps:
+        this.steps.length > 0
+          ? this.steps.map((step, index) => this.getStepMetrics(step, index))
+          : null,
+      endpoints:
+        this.endpoints.length > 0 ? this.endpoints.map(endpoint => endpoint.getMetrics()) : null,
+      timings: this.getTimings(),
+      queue: this.getQueue(),
+      connectionStats: { ...this.connectionStats },
+      protocol: this.protocol
+    }
+  }
+
+  /**
+   * Gets latency stats per phase
+   * @returns Timing stats, or null if no timings were reported
+   */
+  private getTimings(): TimingStats | null {
+    if (this.timings === null) {
+      return null
+    }
+
+    const stats = (histogram: Histogram): LatencyStats | null =>
+      histogram.getCount() > 0 ? formatLatencyStats(calculatePercentiles(histogram)) : null
+
+    return {
+      dns: stats(this.timings.dns),
+      connect: stats(this.timings.connect),
+      tls: stats(this.timings.tls),
+      ttfb: stats(this.timings.ttfb),
+      download: stats(this.timings.download)
+    }
+  }
+
+  /**
+   * Gets the split of latency into queue wait and wire time
+   * @returns Queue stats, or null if no requests completed
+   */
+  private getQueue(): QueueStats | null {
+    if (this.timings === null || this.timings.wire.getCount() === 0) {
+      return null
+    }
+
+    const { queue, wire } = this.timings
+    const total = queue.getSum() + wire.getSum()
+
+    return {
+      wait: formatLatencyStats(calculatePercentiles(queue)),
+      wire: formatLatencyStats(calculatePercentiles(wire)),
+      waitPercent: total > 0 ? roundTo((queue.getSum() / total) * 100) : 0
+    }
+  }
+
+  /**
+   * Gets aggregated metrics for one scenario step
+   * @param step - Step aggregator
+   * @param index - Step index
+   * @returns Aggregated step metrics
+   */
+  private getStepMetrics(step: MetricsAggregator, index: number): AggregatedStepMetrics {
+    return {
+      ...step.getMetrics(),
+      expectations: this.stepExpectations[index] ?? createEmptyExpectationFailures()
     }
   }
 
@@ -80,12 +289,26 @@ export class MetricsAggregator {
    */
   reset(): void {
     this.histogram.reset()
+    this.uncorrectedHistogram.reset()
+    this.hasUncorrected = false
     this.totalRequests = 0
     this.successfulRequests = 0
     this.failedRequests = 0
+    this.missedRequests = 0
     this.totalBytes = 0
     this.timeouts = 0
     this.connectionErrors = 0
     this.statusCodes.clear()
+    this.assertions.clear()
+    this.warmup = null
+    this.ramp = null
+    this.stages = []
+    this.iterations = 0
+    this.steps = []
+    this.stepExpectations = []
+    this.endpoints = []
+    this.timings = null
+    this.connectionStats = createEmptyConnectionStats()
+    this.protocol = null
   }
 }
@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { Histogram } from './histogram.js'
+
+/**
+ * Gets the value range of the bucket a value is recorded in
+ * @param histogram - Histogram
+ * @param value - Value in microseconds
+ * @returns Lowest and highest value of the bucket
+ */
+function bucketRange(histogram: Histogram, value: number): [number, number] {
+  const index = histogram['indexOf'](value)
+  return [histogram['lowestEquivalentValue'](index), histogram['highestEquivalentValue'](index)]
+}
+
+void describe('Histogram', () => {
+  void describe('bucket placement', () => {
+    for (const significantDigits of [1, 2, 3]) {
+      void it(`keeps ${significantDigits} significant digits`, () => {
+        const histogram = new Histogram({ significantDigits, maxLatency: 60_000 })
+        const exactBelow = Math.pow(2, Math.ceil(Math.log2(2 * Math.pow(10, significantDigits))))
+
+        for (const value of [0, 1, 7, exactBelow - 1]) {
+          assert.deepEqual(bucketRange(histogram, value), [value, value])
+        }
+
+        for (const value of [exactBelow, exactBelow + 1, 123_457, 9_999_999, 60_000_000]) {
+          const [lowest, highest] = bucketRange(histogram, value)
+          assert.ok(lowest <= value && value <= highest, `${value} outside [${lowest}, ${highest}]`)
+          assert.ok((highest - lowest + 1) / lowest <= Math.pow(10, -significantDigits))
+        }
+      })
+    }
+
+    void it('places adjacent buckets without gaps or overlaps', () => {
+      const histogram = new Histogram({ significantDigits: 2, maxLatency: 100 })
+      let previousHighest = -1
+
+      for (let value = 0; value <= 100_000; value = previousHighest + 1) {
+        const [lowest, highest] = bucketRange(histogram, value)
+        assert.equal(lowest, previousHighest + 1)
+        assert.equal(histogram['indexOf'](highest), histogram['indexOf'](value))
+        previousHighest = highest
+      }
+    })
+  })
+
+  void describe('getPercentile', () => {
+    void it('returns percentiles within the bucket precision', () => {
+      const histogram = new Histogram({ significantDigits: 3 })
+      for (let value = 1; value <= 100_000; value++) {
+        histogram.record(value)
+      }
+
+      for (const [percentile, expected] of [
+        [50, 50_000],
+        [90, 90_000],
+        [99, 99_000],
+        [99.9, 99_900]
+      ] as const) {
+        const actual = histogram.getPercentile(percentile)
+        assert.ok(Math.abs(actual - expected) / expected <= 0.001, `p${percentile} was ${actual}`)
+      }
+      assert.equal(histogram.getPercentile(100), 100_000)
+      assert.equal(histogram.getPercentile(0), 1)
+    })
+
+    void it('returns recorded values exactly below the sub-bucket count', () => {
+      const histogram = new Histogram()
+      for (const value of [10, 20, 30, 40]) {
+        histogram.record(value)
+      }
+
+      assert.equal(histogram.getPercentile(50), 20)
+      assert.equal(histogram.getPercentile(75), 30)
+      assert.equal(histogram.getMean(), 25)
+    })
+
+    void it('returns 0 when empty', () => {
+      const histogram = new Histogram()
+      assert.equal(histogram.getPercentile(99), 0)
+      assert.equal(histogram.getMin(), 0)
+    })
+  })
+
+  void describe('maxLatency', () => {
+    void it('clamps values above the trackable range into the top bucket', () => {
+      const histogram = new Histogram({ significantDigits: 3, maxLatency: 10 })
+      histogram.record(4_000)
+      histogram.record(50_000)
+      histogram.record(60_000)
+
+      const [lowest, highest] = bucketRange(histogram, 10_000)
+      const p99 = histogram.getPercentile(99)
+      assert.ok(p99 >= lowest && p99 <= highest, `p99 was ${p99}`)
+      assert.equal(histogram.getMax(), 60_000)
+      assert.equal(histogram.getMean(), 38_000)
+    })
+
+    void it('rejects invalid layouts', () => {
+      assert.throws(() => new Histogram({ significantDigits: 0 }), RangeError)
+      assert.throws(() => new Histogram({ significantDigits: 2.5 }), RangeError)
+      assert.throws(() => new Histogram({ significantDigits: 4 }), /between 1 and 3/)
+      assert.throws(() => new Histogram({ maxLatency: 0 }), RangeError)
+    })
+  })
+
+  void describe('import', () => {
+    void it('merges counts, extremes and sums', () => {
+      const a = new Histogram()
+      const b = new Histogram()
+      a.record(100)
+      b.record(5)
+      b.record(900)
+
+      a.import(b.export())
+      assert.equal(a.getCount(), 3)
+      assert.equal(a.getMin(), 5)
+      assert.equal(a.getMax(), 900)
+      assert.equal(a.getSum(), 1005)
+      assert.equal(a.getPercentile(50), 100)
+    })
+
+    void it('rejects data with a different bucket count', () => {
+      const histogram = new Histogram({ significantDigits: 3 })
+      const other = new Histogram({ significantDigits: 2 })
+      other.record(100)
+
+      assert.throws(
+        () => histogram.import(other.export()),
+        /Cannot import histogram with \d+ buckets/
+      )
+      assert.equal(histogram.getCount(), 0)
+    })
+  })
+})
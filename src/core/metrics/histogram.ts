@@ -1,13 +1,27 @@
-import { HISTOGRAM_BUCKETS, MAX_LATENCY_US, BUCKET_WIDTH_US } from '../../constants.js'
+import {
+  DEFAULT_HISTOGRAM_SIGNIFICANT_DIGITS,
+  DEFAULT_MAX_LATENCY_MS,
+  MAX_HISTOGRAM_SIGNIFICANT_DIGITS,
+  MAX_TRACKABLE_LATENCY_MS
+} from '../../constants.js'
 
-import type { HistogramData } from '../../types.js'
+import type { HistogramConfig, HistogramData } from '../../types.js'
 
 /**
- * High-performance histogram for latency tracking
- * Uses pre-allocated Uint32Array to avoid allocations in hot path
+ * High-performance log-linear (HDR-style) histogram for latency tracking
+ *
+ * Values are recorded in microseconds. Each power-of-two range is split into
+ * linear sub-buckets sized so every value keeps the configured number of
+ * significant digits, giving 1 µs resolution at the low end while still
+ * covering long tails. Uses a pre-allocated Uint32Array to avoid allocations
+ * in the hot path.
  */
 export class Histogram {
   private readonly buckets: Uint32Array
+  private readonly highestTrackableValue: number
+  private readonly subBucketHalfCountMagnitude: number
+  private readonly subBucketHalfCount: number
+  private readonly subBucketMask: number
   private count: number = 0
   private min: number = Number.MAX_SAFE_INTEGER
   private max: number = 0
@@ -15,9 +29,45 @@ export class Histogram {
 
   /**
    * Creates a new histogram with pre-allocated buckets
+   * @param config - Precision and range options
    */
-  constructor() {
-    this.buckets = new Uint32Array(HISTOGRAM_BUCKETS)
+  constructor(config: HistogramConfig = {}) {
+    const significantDigits = config.significantDigits ?? DEFAULT_HISTOGRAM_SIGNIFICANT_DIGITS
+    const maxLatencyMs = config.maxLatency ?? DEFAULT_MAX_LATENCY_MS
+
+    if (
+      !Number.isInteger(significantDigits) ||
+      significantDigits < 1 ||
+      significantDigits > MAX_HISTOGRAM_SIGNIFICANT_DIGITS
+    ) {
+      throw new RangeError(
+        `Histogram significant digits must be an integer between 1 and ${MAX_HISTOGRAM_SIGNIFICANT_DIGITS}`
+      )
+    }
+    if (!(maxLatencyMs >= 1) || maxLatencyMs > MAX_TRACKABLE_LATENCY_MS) {
+      throw new RangeError(
+        `Histogram max latency must be between 1 and ${MAX_TRACKABLE_LATENCY_MS} ms`
+      )
+    }
+
+    this.highestTrackableValue = Math.ceil(maxLatencyMs * 1000)
+
+    const largestSingleUnitValue = 2 * Math.pow(10, significantDigits)
+    const subBucketCountMagnitude = Math.ceil(Math.log2(largestSingleUnitValue))
+    const subBucketCount = Math.pow(2, subBucketCountMagnitude)
+
+    this.subBucketHalfCountMagnitude = subBucketCountMagnitude - 1
+    this.subBucketHalfCount = subBucketCount / 2
+    this.subBucketMask = subBucketCount - 1
+
+    let bucketsNeeded = 1
+    let smallestUntrackableValue = subBucketCount
+    while (smallestUntrackableValue <= this.highestTrackableValue) {
+      smallestUntrackableValue *= 2
+      bucketsNeeded++
+    }
+
+    this.buckets = new Uint32Array((bucketsNeeded + 1) * this.subBucketHalfCount)
   }
 
   /**
@@ -25,22 +75,21 @@ export class Histogram {
    * @param valueUs - Latency in microseconds
    */
   record(valueUs: number): void {
-    const clampedValue = Math.min(valueUs, MAX_LATENCY_US - 1)
-    const bucketIndex = Math.floor(clampedValue / BUCKET_WIDTH_US)
-    const safeIndex = Math.min(bucketIndex, HISTOGRAM_BUCKETS - 1)
+    const value = Math.max(0, Math.round(valueUs))
+    const index = this.indexOf(Math.min(value, this.highestTrackableValue))
 
-    const current = this.buckets[safeIndex]
+    const current = this.buckets[index]
     if (current !== undefined) {
-      this.buckets[safeIndex] = current + 1
+      this.buckets[index] = current + 1
     }
     this.count++
-    this.sum += valueUs
+    this.sum += value
 
-    if (valueUs < this.min) {
-      this.min = valueUs
+    if (value < this.min) {
+      this.min = value
     }
-    if (valueUs > this.max) {
-      this.max = valueUs
+    if (value > this.max) {
+      this.max = value
     }
   }
 
@@ -94,20 +143,17 @@ export class Histogram {
       return 0
     }
 
-    const targetCount = Math.ceil((percentile / 100) * this.count)
+    const targetCount = Math.max(1, Math.ceil((percentile / 100) * this.count))
     let cumulative = 0
 
-    for (let i = 0; i < HISTOGRAM_BUCKETS; i++) {
-      const bucketValue = this.buckets[i]
-      if (bucketValue !== undefined) {
-        cumulative += bucketValue
-      }
+    for (let i = 0; i < this.buckets.length; i++) {
+      cumulative += this.buckets[i] ?? 0
       if (cumulative >= targetCount) {
-        return (i + 0.5) * BUCKET_WIDTH_US
+        return Math.max(this.getMin(), Math.min(this.highestEquivalentValue(i), this.max))
       }
     }
 
-    return MAX_LATENCY_US
+    return this.max
   }
 
   /**
@@ -123,11 +169,10 @@ export class Histogram {
     let sumSquaredDiff = 0
     let counted = 0
 
-    for (let i = 0; i < HISTOGRAM_BUCKETS; i++) {
+    for (let i = 0; i < this.buckets.length; i++) {
       const bucketCount = this.buckets[i]
       if (bucketCount !== undefined && bucketCount > 0) {
-        const bucketMidpoint = (i + 0.5) * BUCKET_WIDTH_US
-        const diff = bucketMidpoint - mean
+        const diff = this.medianEquivalentValue(i) - mean
         sumSquaredDiff += diff * diff * bucketCount
         counted += bucketCount
       }
@@ -155,7 +200,13 @@ export class Histogram {
    * @param data - Histogram data to import
    */
   import(data: HistogramData): void {
-    for (let i = 0; i < HISTOGRAM_BUCKETS; i++) {
+    if (data.buckets.length !== this.buckets.length) {
+      throw new Error(
+        `Cannot import histogram with ${data.buckets.length} buckets into one with ${this.buckets.length}`
+      )
+    }
+
+    for (let i = 0; i < this.buckets.length; i++) {
       const current = this.buckets[i]
       const incoming = data.buckets[i]
       if (current !== undefined) {
@@ -193,4 +244,65 @@ export class Histogram {
     this.max = 0
     this.sum = 0
   }
+
+  /**
+   * Gets the bucket index for a value
+   * @param value - Non-negative integer value within the trackable range
+   * @returns Index into the bucket array
+   */
+  private indexOf(value: number): number {
+    const bucketIndex =
+      31 - Math.clz32(value | this.subBucketMask) - this.subBucketHalfCountMagnitude
+    const subBucketIndex = value >>> bucketIndex
+
+    return (
+      ((bucketIndex + 1) << this.subBucketHalfCountMagnitude) +
+      (subBucketIndex - this.subBucketHalfCount)
+    )
+  }
+
+  /**
+   * Gets the lowest value that maps to a bucket index
+   * @param index - Bucket index
+   * @returns Lowest equivalent value in microseconds
+   */
+  private lowestEquivalentValue(index: number): number {
+    let bucketIndex = (index >> this.subBucketHalfCountMagnitude) - 1
+    let subBucketIndex = (index & (this.subBucketHalfCount - 1)) + this.subBucketHalfCount
+
+    if (bucketIndex < 0) {
+      subBucketIndex -= this.subBucketHalfCount
+      bucketIndex = 0
+    }
+
+    return subBucketIndex * Math.pow(2, bucketIndex)
+  }
+
+  /**
+   * Gets the width of the value range covered by a bucket index
+   * @param index - Bucket index
+   * @returns Range width in microseconds
+   */
+  private bucketWidth(index: number): number {
+    const bucketIndex = Math.max(0, (index >> this.subBucketHalfCountMagnitude) - 1)
+    return Math.pow(2, bucketIndex)
+  }
+
+  /**
+   * Gets the highest value that maps to a bucket index
+   * @param index - Bucket index
+   * @returns Highest equivalent value in microseconds
+   */
+  private highestEquivalentValue(index: number): number {
+    return this.lowestEquivalentValue(index) + this.bucketWidth(index) - 1
+  }
+
+  /**
+   * Gets the midpoint of the value range covered by a bucket index
+   * @param index - Bucket index
+   * @returns Median equivalent value in microseconds
+   */
+  private medianEquivalentValue(index: number): number {
+    return this.lowestEquivalentValue(index) + Math.floor(this.bucketWidth(index) / 2)
+  }
 }
@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { MetricsRecorder, StepRecorder, TimingRecorder } from './recorder.js'
+import { MetricsAggregator } from './aggregator.js'
+import { createEmptyMetricsSnapshot } from '../worker/messages.js'
+
+const histogramConfig = { significantDigits: 3, maxLatency: 1000 }
+
+void describe('MetricsRecorder', () => {
+  void it('leaves the histograms out of a delta without requests', () => {
+    const recorder = new MetricsRecorder(histogramConfig, true)
+
+    const delta = recorder.takeDelta()
+    assert.equal(delta.requests, 0)
+    assert.equal(delta.histogram, null)
+    assert.equal(delta.uncorrectedHistogram, null)
+  })
+
+  void it('hands out recorded latency once', () => {
+    const recorder = new MetricsRecorder(histogramConfig, true)
+    recorder.recordResponse(true, 200, 10, 1500, 500)
+
+    const delta = recorder.takeDelta()
+    assert.equal(delta.histogram?.count, 1)
+    assert.equal(delta.histogram?.max, 1500)
+    assert.equal(delta.uncorrectedHistogram?.max, 500)
+    assert.equal(recorder.takeDelta().histogram, null)
+  })
+
+  void it('leaves the histograms out when only errors were recorded', () => {
+    const recorder = new StepRecorder(histogramConfig, false)
+    recorder.recordError(new Error('connect ECONNREFUSED'))
+    recorder.recordExpectationFailure('capture')
+
+    const delta = recorder.takeDelta()
+    assert.equal(delta.requests, 1)
+    assert.equal(delta.errors.connectionErrors, 1)
+    assert.equal(delta.expectations.capture, 1)
+    assert.equal(delta.histogram, null)
+  })
+})
+
+void describe('TimingRecorder', () => {
+  void it('leaves out phases without values', () => {
+    const recorder = new TimingRecorder(histogramConfig)
+    recorder.recordConnection({ dnsUs: null, connectUs: 300, tlsUs: null })
+
+    const delta = recorder.takeDelta()
+    assert.equal(delta.connect?.max, 300)
+    assert.deepEqual(
+      [delta.dns, delta.tls, delta.queue, delta.wire, delta.ttfb, delta.download],
+      [null, null, null, null, null, null]
+    )
+    assert.ok(Object.values(recorder.takeDelta()).every(histogram => histogram === null))
+  })
+
+  void it('records the phases of a response', () => {
+    const recorder = new TimingRecorder(histogramConfig)
+    recorder.recordResponse({
+      statusCode: 200,
+      headers: {},
+      bytes: 2,
+      latencyUs: 900,
+      queueUs: 100,
+      wireUs: 800,
+      ttfbUs: 600,
+      downloadUs: 200,
+      body: null
+    })
+
+    const delta = recorder.takeDelta()
+    assert.deepEqual(
+      [delta.queue?.max, delta.wire?.max, delta.ttfb?.max, delta.download?.max],
+      [100, 800, 600, 200]
+    )
+    assert.equal(delta.connect, null)
+  })
+})
+
+void describe('MetricsAggregator', () => {
+  void it('merges deltas with and without histograms', () => {
+    const recorder = new MetricsRecorder(histogramConfig, true)
+    const aggregator = new MetricsAggregator(histogramConfig)
+
+    recorder.recordResponse(true, 200, 10, 2000, 1000)
+    aggregator.addDelta(recorder.takeDelta())
+    aggregator.addDelta(recorder.takeDelta())
+    recorder.recordResponse(false, 500, 10, 4000, 3000)
+    aggregator.addDelta(recorder.takeDelta())
+
+    const metrics = aggregator.getMetrics()
+    assert.equal(metrics.totalRequests, 2)
+    assert.equal(metrics.errors.byStatusCode[500], 1)
+    assert.equal(metrics.latency.max, 4)
+    assert.equal(metrics.uncorrectedLatency?.max, 3)
+  })
+
+  void it('merges timing deltas with empty phases', () => {
+    const recorder = new TimingRecorder(histogramConfig)
+    const aggregator = new MetricsAggregator(histogramConfig)
+    const snapshot = createEmptyMetricsSnapshot(0)
+
+    recorder.recordConnection({ dnsUs: 1000, connectUs: 2000, tlsUs: null })
+    aggregator.addSnapshot({ ...snapshot, timings: recorder.takeDelta() })
+    aggregator.addSnapshot({ ...snapshot, timings: recorder.takeDelta() })
+
+    const timings = aggregator.getMetrics().timings
+    assert.equal(timings?.dns?.max, 1)
+    assert.equal(timings?.connect?.max, 2)
+    assert.equal(timings?.tls, null)
+  })
+})
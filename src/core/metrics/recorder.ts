@@ -0,0 +1,227 @@
+import type {
+  ErrorBreakdown,
+  ExpectationFailures,
+  HistogramConfig,
+  HistogramData,
+  MetricsDelta,
+  StepMetricsDelta,
+  TimingHistograms
+} from '../../types.js'
+import { Histogram } from './histogram.js'
+import { createEmptyErrorBreakdown, createEmptyExpectationFailures } from '../worker/messages.js'
+import type { ConnectionTimings, HttpResponse } from '../http/client.js'
+
+/**
+ * Exports the values a histogram recorded since it was last reset. Empty histograms
+ * are left out, so idle intervals do not copy and transfer their buckets.
+ * @param histogram - Histogram to export
+ * @returns Histogram data, or null if nothing was recorded
+ */
+function exportRecorded(histogram: Histogram): HistogramData | null {
+  return histogram.getCount() > 0 ? histogram.export() : null
+}
+
+/**
+ * Records request outcomes inside a worker and hands them out as deltas
+ */
+export class MetricsRecorder {
+  private requests: number = 0
+  private successful: number = 0
+  private failed: number = 0
+  private bytes: number = 0
+  private readonly histogram: Histogram
+  private readonly uncorrectedHistogram: Histogram | null
+  private errors: ErrorBreakdown = createEmptyErrorBreakdown()
+
+  /**
+   * Creates a metrics recorder
+   * @param histogramConfig - Latency histogram layout
+   * @param trackUncorrected - Whether to keep a second histogram of uncorrected latency
+   */
+  constructor(histogramConfig: HistogramConfig, trackUncorrected: boolean) {
+    this.histogram = new Histogram(histogramConfig)
+    this.uncorrectedHistogram = trackUncorrected ? new Histogram(histogramConfig) : null
+  }
+
+  /**
+   * Records a completed response. Failed responses are counted by the assertions
+   * they failed, or by status code when no assertion applies.
+   * @param success - Whether the response counts as successful
+   * @param statusCode - HTTP status code
+   * @param bytes - Response body size
+   * @param latencyUs - Latency in microseconds (corrected when a schedule applies)
+   * @param uncorrectedLatencyUs - Latency measured from the actual send time
+   * @param failedAssertions - Names of the response assertions that failed
+   */
+  recordResponse(
+    success: boolean,
+    statusCode: number,
+    bytes: number,
+    latencyUs: number,
+    uncorrectedLatencyUs: number,
+    failedAssertions: string[] = []
+  ): void {
+    this.requests++
+    this.bytes += bytes
+    this.histogram.record(latencyUs)
+    this.uncorrectedHistogram?.record(uncorrectedLatencyUs)
+
+    if (success) {
+      this.successful++
+    } else if (failedAssertions.length > 0) {
+      this.failed++
+      const assertions = (this.errors.assertions ??= {})
+      for (const name of failedAssertions) {
+        assertions[name] = (assertions[name] ?? 0) + 1
+      }
+    } else {
+      this.failed++
+      const count = this.errors.byStatusCode[statusCode] ?? 0
+      this.errors.byStatusCode[statusCode] = count + 1
+    }
+  }
+
+  /**
+   * Records a request that failed without a response
+   * @param err - Error thrown by the client
+   */
+  recordError(err: unknown): void {
+    this.requests++
+    this.failed++
+
+    if (err instanceof Error) {
+      if (err.message.includes('timeout') || err.name === 'TimeoutError') {
+        this.errors.timeouts++
+      } else {
+        this.errors.connectionErrors++
+      }
+    } else {
+      this.errors.connectionErrors++
+    }
+  }
+
+  /**
+   * Takes the metrics recorded since the previous call and resets the recorder,
+   * so every request is reported exactly once
+   * @returns Metrics delta
+   */
+  takeDelta(): MetricsDelta {
+    const delta: MetricsDelta = {
+      requests: this.requests,
+      successful: this.successful,
+      failed: this.failed,
+      bytes: this.bytes,
+      histogram: exportRecorded(this.histogram),
+      uncorrectedHistogram:
+        this.uncorrectedHistogram !== null ? exportRecorded(this.uncorrectedHistogram) : null,
+      errors: this.errors
+    }
+
+    this.requests = 0
+    this.successful = 0
+    this.failed = 0
+    this.bytes = 0
+    this.histogram.reset()
+    this.uncorrectedHistogram?.reset()
+    this.errors = createEmptyErrorBreakdown()
+
+    return delta
+  }
+}
+
+/**
+ * Records outcomes of one scenario step, including unmet expectations
+ */
+export class StepRecorder extends MetricsRecorder {
+  private expectations: ExpectationFailures = createEmptyExpectationFailures()
+
+  /**
+   * Records a response that did not meet one of the step's expectations
+   * @param expectation - Expectation that was not met
+   */
+  recordExpectationFailure(expectation: keyof ExpectationFailures): void {
+    this.expectations[expectation]++
+  }
+
+  /**
+   * Takes the metrics recorded since the previous call and resets the recorder
+   * @returns Step metrics delta
+   */
+  override takeDelta(): StepMetricsDelta {
+    const delta: StepMetricsDelta = { ...super.takeDelta(), expectations: this.expectations }
+    this.expectations = createEmptyExpectationFailures()
+    return delta
+  }
+}
+
+/**
+ * Records the latency phases of requests and new connections in one histogram per
+ * phase, along with each request's queue wait and wire time
+ */
+export class TimingRecorder {
+  private readonly histograms: Record<keyof TimingHistograms, Histogram>
+
+  /**
+   * Creates a timing recorder
+   * @param histogramConfig - Latency histogram layout
+   */
+  constructor(histogramConfig: HistogramConfig) {
+    this.histograms = {
+      queue: new Histogram(histogramConfig),
+      wire: new Histogram(histogramConfig),
+      dns: new Histogram(histogramConfig),
+      connect: new Histogram(histogramConfig),
+      tls: new Histogram(histogramConfig),
+      ttfb: new Histogram(histogramConfig),
+      download: new Histogram(histogramConfig)
+    }
+  }
+
+  /**
+   * Records the setup of a new connection
+   * @param timings - DNS, connect and TLS time in microseconds
+   */
+  recordConnection(timings: ConnectionTimings): void {
+    if (timings.dnsUs !== null) {
+      this.histograms.dns.record(timings.dnsUs)
+    }
+    this.histograms.connect.record(timings.connectUs)
+    if (timings.tlsUs !== null) {
+      this.histograms.tls.record(timings.tlsUs)
+    }
+  }
+
+  /**
+   * Records the queue wait, wire time and response phases of a request
+   * @param response - Completed response
+   */
+  recordResponse(response: HttpResponse): void {
+    this.histograms.queue.record(response.queueUs)
+    this.histograms.wire.record(response.wireUs)
+    this.histograms.ttfb.record(response.ttfbUs)
+    this.histograms.download.record(response.downloadUs)
+  }
+
+  /**
+   * Takes the timings recorded since the previous call and resets the recorder
+   * @returns Histogram per phase, null for phases without values
+   */
+  takeDelta(): TimingHistograms {
+    const { queue, wire, dns, connect, tls, ttfb, download } = this.histograms
+    const delta: TimingHistograms = {
+      queue: exportRecorded(queue),
+      wire: exportRecorded(wire),
+      dns: exportRecorded(dns),
+      connect: exportRecorded(connect),
+      tls: exportRecorded(tls),
+      ttfb: exportRecorded(ttfb),
+      download: exportRecorded(download)
+    }
+
+    for (const histogram of Object.values(this.histograms)) {
+      histogram.reset()
+    }
+
+    return delta
+  }
+}
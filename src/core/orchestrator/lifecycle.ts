@@ -98,6 +98,14 @@ export class LifecycleManager {
     return performance.now() - this.startTime
   }
 
+  /**
+   * Gets time spent in the measured phases, excluding warmup
+   * @returns Elapsed milliseconds since warmup ended
+   */
+  getMeasuredMs(): number {
+    return Math.max(0, performance.now() - this.warmupEndTime)
+  }
+
   /**
    * Gets remaining time in main phase
    * @returns Remaining milliseconds
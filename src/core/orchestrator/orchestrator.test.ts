@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { Orchestrator } from './orchestrator.js'
+import type { ScenarioConfig } from '../../types.js'
+
+/**
+ * Builds a scenario with one step per URL
+ * @param urls - Step URLs
+ * @returns Scenario configuration
+ */
+function scenarioOf(urls: string[]): ScenarioConfig {
+  return { name: 'checkout', steps: urls.map((url, index) => ({ name: `step ${index}`, url })) }
+}
+
+void describe('Orchestrator', () => {
+  void describe('request URLs', () => {
+    void it('resolves relative and templated scenario steps against the run URL', () => {
+      const scenario = scenarioOf(['http://api.test:8080/home', '/login', '{{base}}/cart'])
+      const orchestrator = new Orchestrator({ url: 'http://api.test:8080/home' }, scenario)
+
+      assert.deepEqual(
+        orchestrator['config'].scenario?.steps.map(step => step.url),
+        [
+          'http://api.test:8080/home',
+          'http://api.test:8080/login',
+          'http://api.test:8080/{{base}}/cart'
+        ]
+      )
+      assert.equal(scenario.steps[1]?.url, '/login')
+    })
+
+    void it('resolves relative endpoints against the run URL', () => {
+      const orchestrator = new Orchestrator({
+        url: 'https://api.test/v1',
+        requests: [{ url: '/items' }, { url: 'https://other.test/ping' }]
+      })
+
+      assert.deepEqual(
+        orchestrator['config'].endpoints?.map(endpoint => endpoint.url),
+        ['https://api.test/items', 'https://other.test/ping']
+      )
+    })
+
+    void it('decides the proxy per origin', () => {
+      const orchestrator = new Orchestrator({
+        url: 'http://direct.test/',
+        proxy: { url: 'http://proxy.test:3128', noProxy: 'direct.test' },
+        requests: [
+          { url: '/home' },
+          { url: 'http://api.test/items' },
+          { url: 'https://api.test:8443/items' }
+        ]
+      })
+
+      assert.deepEqual(orchestrator['config'].proxies, {
+        'http://api.test': { url: 'http://proxy.test:3128' },
+        'https://api.test:8443': { url: 'http://proxy.test:3128' }
+      })
+    })
+
+    void it('rejects URLs that cannot be parsed', () => {
+      assert.throws(
+        () => new Orchestrator({ url: '/login' }, scenarioOf(['/login'])),
+        /Invalid URL "\/login" for the first step of scenario "checkout"/
+      )
+      assert.throws(
+        () =>
+          new Orchestrator(
+            { url: 'http://api.test/' },
+            scenarioOf(['http://api.test/', 'http://api.test:{{port}}/x'])
+          ),
+        /Invalid URL "http:\/\/api.test:\{\{port\}\}\/x" for the scenario step "step 1"/
+      )
+      assert.throws(
+        () =>
+          new Orchestrator({
+            url: 'http://api.test/',
+            requests: [{ name: 'ping', url: 'http://:1/' }]
+          }),
+        /Invalid URL "http:\/\/:1\/" for the endpoint "ping"/
+      )
+      assert.throws(() => new Orchestrator({ url: 'api.test' }), /Invalid URL "api.test": expected/)
+    })
+  })
+})
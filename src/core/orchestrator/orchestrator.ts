@@ -2,15 +2,53 @@ import { Worker } from 'node:worker_threads'
 import { cpus } from 'node:os'
 import { resolve } from 'node:path'
 
-import type { BenchConfig, BenchResult, WorkerConfig } from '../../types.js'
+import type {
+  ArrivalConfig,
+  AssertionConfig,
+  BenchConfig,
+  BenchOptions,
+  BenchResult,
+  DataOrder,
+  DataRow,
+  EndpointConfig,
+  EndpointStats,
+  HistogramConfig,
+  Http2Config,
+  LoadStage,
+  PhaseStats,
+  ScenarioConfig,
+  ScenarioStats,
+  StageStats,
+  StageTarget,
+  TlsConfig,
+  ProxyConfig,
+  Cookie,
+  CookieJarConfig,
+  WorkerConfig
+} from '../../types.js'
 import type { WorkerRequest, WorkerResponse } from '../worker/messages.js'
 import { MetricsAggregator } from '../metrics/aggregator.js'
+import type { AggregatedMetrics, AggregatedStepMetrics } from '../metrics/aggregator.js'
 import { LifecycleManager } from './lifecycle.js'
+import { validateTemplate } from '../template/template.js'
+import { loadDataFile, partitionRows } from '../data/feeder.js'
+import { createStatusPolicy, normalizeStatusList } from '../http/status.js'
+import { resolveSocketTarget } from '../http/target.js'
+import { resolveProxy } from '../http/proxy.js'
+import { loadCookieFile } from '../http/cookies.js'
 import {
   DEFAULT_CONNECTIONS,
   DEFAULT_DURATION_SEC,
   DEFAULT_TIMEOUT_MS,
   DEFAULT_METHOD,
+  DEFAULT_RAMP_UP_SEC,
+  DEFAULT_RAMP_DOWN_SEC,
+  DEFAULT_HISTOGRAM_SIGNIFICANT_DIGITS,
+  DEFAULT_MAX_LATENCY_MS,
+  DEFAULT_DATA_ORDER,
+  DEFAULT_SUCCESS_STATUS,
+  DEFAULT_PIPELINING,
+  DEFAULT_HTTP2_MAX_STREAMS,
   MAX_WORKERS,
   VERSION
 } from '../../constants.js'
@@ -26,10 +64,26 @@ type NormalizedConfig = {
   connections: number
   duration: number
   rate: number | null
+  arrival: Required<ArrivalConfig> | null
   timeout: number
   rampUp: number
+  rampDown: number
   warmup: number
-  http2: boolean
+  stages: LoadStage[] | null
+  stageTarget: StageTarget
+  scenario: ScenarioConfig | null
+  data: { order: DataOrder; rows: DataRow[] } | null
+  endpoints: EndpointConfig[] | null
+  assertions: AssertionConfig | null
+  successStatus: string
+  pipelining: number
+  keepAlive: boolean
+  churn: number | null
+  http2: Required<Http2Config> | null
+  tls: TlsConfig | null
+  socketPath: string | null
+  proxies: Record<string, ProxyConfig>
+  cookies: Cookie[] | null
   output: 'console' | 'json' | 'html' | 'csv'
   outputFile?: string
   thresholds?: {
@@ -38,40 +92,557 @@ type NormalizedConfig = {
     errorRate?: number
     minRps?: number
   }
+  histogram: Required<HistogramConfig>
 }
 
+/**
+ * URL with a scheme, e.g. http://localhost:3000/items
+ */
+const ABSOLUTE_URL_PATTERN = /^[a-z][a-z\d+.-]*:\/\//i
+
 /**
  * Normalizes benchmark configuration with defaults
  * @param config - User configuration
+ * @param scenario - Scenario each connection runs as a virtual user, if any
  * @returns Normalized configuration
  */
-function normalizeConfig(config: BenchConfig): NormalizedConfig {
+function normalizeConfig(
+  config: BenchConfig,
+  scenario: ScenarioConfig | null = null
+): NormalizedConfig {
+  const stages = config.stages ?? null
+  const stageTarget = config.stageTarget ?? 'rate'
+  const warmup = config.warmup ?? 0
+
+  validateRequestUrl(
+    config.url,
+    scenario !== null ? `first step of scenario "${scenario.name}"` : null
+  )
+
+  if (stages !== null) {
+    validateStages(stages, config)
+  }
+
+  if (scenario !== null) {
+    validateScenario(scenario, config)
+  }
+
+  if (config.requests !== undefined) {
+    validateEndpoints(config.requests, scenario)
+  }
+
+  validateTemplates(config, scenario)
+
+  const endpoints =
+    config.requests?.map(endpoint => normalizeEndpoint(endpoint, config.url)) ?? null
+  endpoints?.forEach(endpoint => validateRequestUrl(endpoint.url, `endpoint "${endpoint.name}"`))
+  const steps =
+    scenario?.steps.map(step => ({ ...step, url: resolveRequestUrl(step.url, config.url) })) ?? null
+  steps?.forEach(step => validateRequestUrl(step.url, `scenario step "${step.name}"`))
+
+  validateConnectionPolicy(config)
+
+  const proxies = resolveProxies(config, [
+    config.url,
+    ...(endpoints ?? []).map(endpoint => endpoint.url),
+    ...(steps ?? []).map(step => step.url)
+  ])
+  if (Object.keys(proxies).length > 0) {
+    validateProxy(config)
+  }
+
+  if (config.tls !== undefined) {
+    validateTls(config.tls, config.http2 !== undefined && config.http2 !== false)
+  }
+
+  const successStatus = normalizeStatusList(config.successStatus ?? DEFAULT_SUCCESS_STATUS)
+  createStatusPolicy(successStatus)
+
+  // Stage targets take the place of the rate or connection count, and stage
+  // durations (with any warmup taken from the start) the run duration
+  const peak = stages !== null ? Math.max(...stages.map(stage => stage.target)) : 0
+  const connections =
+    stages !== null && stageTarget === 'connections'
+      ? Math.ceil(peak)
+      : (config.connections ?? DEFAULT_CONNECTIONS)
+  const rate = stages !== null && stageTarget === 'rate' ? peak : (config.rate ?? null)
+  const duration =
+    stages !== null
+      ? stages.reduce((sum, stage) => sum + stage.duration, 0) - warmup
+      : (config.duration ?? DEFAULT_DURATION_SEC)
+  const rampUp = config.rampUp ?? DEFAULT_RAMP_UP_SEC
+  const rampDown = config.rampDown ?? DEFAULT_RAMP_DOWN_SEC
+
+  if (stages !== null && (peak <= 0 || duration <= 0)) {
+    throw new Error('Load stages must reach a positive target and outlast the warmup')
+  }
+
+  if (config.arrival !== undefined && (rate === null || rate <= 0)) {
+    throw new Error('Open-model arrivals require a positive rate')
+  }
+
+  if (rampUp + rampDown > duration) {
+    throw new Error('Ramp-up and ramp-down must fit within the benchmark duration')
+  }
+
   return {
     url: config.url,
     method: config.method ?? DEFAULT_METHOD,
     headers: config.headers ?? {},
-    body: config.body ?? null,
-    connections: config.connections ?? DEFAULT_CONNECTIONS,
-    duration: config.duration ?? DEFAULT_DURATION_SEC,
-    rate: config.rate ?? null,
+    body: shareBody(config.body ?? null),
+    connections,
+    duration,
+    rate,
+    arrival:
+      config.arrival !== undefined
+        ? {
+            distribution: config.arrival.distribution,
+            maxInFlight: config.arrival.maxInFlight ?? connections
+          }
+        : null,
     timeout: config.timeout ?? DEFAULT_TIMEOUT_MS,
-    rampUp: config.rampUp ?? 0,
-    warmup: config.warmup ?? 0,
-    http2: config.http2 ?? false,
+    rampUp,
+    rampDown,
+    warmup,
+    stages,
+    stageTarget,
+    scenario: scenario !== null && steps !== null ? { ...scenario, steps } : null,
+    data:
+      config.data !== undefined
+        ? { order: config.data.order ?? DEFAULT_DATA_ORDER, rows: loadDataFile(config.data.file) }
+        : null,
+    endpoints,
+    assertions: config.assertions ?? null,
+    successStatus,
+    pipelining: config.pipelining ?? DEFAULT_PIPELINING,
+    keepAlive: config.keepAlive ?? true,
+    churn: config.churn ?? null,
+    http2: normalizeHttp2(config.http2, connections),
+    tls: config.tls ?? null,
+    socketPath: config.socketPath ?? null,
+    proxies,
+    cookies: normalizeCookies(config.cookies),
     output: config.output ?? 'console',
     outputFile: config.outputFile,
-    thresholds: config.thresholds
+    thresholds: config.thresholds,
+    histogram: {
+      significantDigits:
+        config.histogram?.significantDigits ?? DEFAULT_HISTOGRAM_SIGNIFICANT_DIGITS,
+      maxLatency: config.histogram?.maxLatency ?? DEFAULT_MAX_LATENCY_MS
+    }
   }
 }
 
 /**
- * Calculates optimal worker count
+ * Fills in HTTP/2 defaults: one session per worker and the default stream limit
+ * @param http2 - HTTP/2 option as given
  * @param connections - Total connections
+ * @returns HTTP/2 configuration, or null to use HTTP/1.1
+ */
+function normalizeHttp2(
+  http2: boolean | Http2Config | undefined,
+  connections: number
+): Required<Http2Config> | null {
+  if (http2 === undefined || http2 === false) {
+    return null
+  }
+
+  const options = http2 === true ? {} : http2
+  const sessions = options.sessions ?? calculateWorkerCount(connections)
+  const maxConcurrentStreams = options.maxConcurrentStreams ?? DEFAULT_HTTP2_MAX_STREAMS
+
+  if (!Number.isInteger(sessions) || sessions < 1) {
+    throw new Error('HTTP/2 sessions must be a positive integer')
+  }
+  if (!Number.isInteger(maxConcurrentStreams) || maxConcurrentStreams < 1) {
+    throw new Error('HTTP/2 max concurrent streams must be a positive integer')
+  }
+
+  return { sessions, maxConcurrentStreams }
+}
+
+/**
+ * Loads the cookies every virtual user's cookie jar starts with
+ * @param cookies - Cookie jar option as given
+ * @returns Seed cookies, or null to run without cookie jars
+ */
+function normalizeCookies(cookies: boolean | CookieJarConfig | undefined): Cookie[] | null {
+  if (cookies === undefined || cookies === false) {
+    return null
+  }
+
+  return cookies !== true && cookies.file !== undefined ? loadCookieFile(cookies.file) : []
+}
+
+/**
+ * Validates the HTTP/1.1 connection lifecycle options
+ * @param config - User configuration
+ */
+function validateConnectionPolicy(config: BenchConfig): void {
+  const { pipelining, keepAlive, churn } = config
+
+  if (pipelining !== undefined && (!Number.isInteger(pipelining) || pipelining < 1)) {
+    throw new Error('Pipelining depth must be a positive integer')
+  }
+  if (churn !== undefined && (!Number.isInteger(churn) || churn < 1)) {
+    throw new Error('Connection churn must be a positive integer')
+  }
+  if (churn !== undefined && keepAlive === false) {
+    throw new Error(
+      'Connection churn needs keep-alive; without it every request opens a connection'
+    )
+  }
+
+  const http2 = config.http2 !== undefined && config.http2 !== false
+  if (http2 && (pipelining !== undefined || keepAlive === false || churn !== undefined)) {
+    throw new Error('Pipelining, keep-alive and churn settings only apply to HTTP/1.1')
+  }
+}
+
+/**
+ * Validates the TLS client options
+ * @param tls - TLS options
+ * @param http2 - Whether the run uses HTTP/2
+ */
+function validateTls(tls: TlsConfig, http2: boolean): void {
+  if ((tls.cert === undefined) !== (tls.key === undefined)) {
+    throw new Error('A TLS client certificate and key must be given together')
+  }
+
+  if (tls.alpnProtocols !== undefined) {
+    // undici always offers http/1.1 alone, so only the HTTP/2 client can change the list
+    if (!http2) {
+      throw new Error('ALPN protocols can only be chosen for HTTP/2; HTTP/1.1 offers http/1.1')
+    }
+    if (!tls.alpnProtocols.includes('h2')) {
+      throw new Error('ALPN protocols for HTTP/2 must include h2')
+    }
+  }
+}
+
+/**
+ * Resolves the proxy of every origin the run sends requests to, so NO_PROXY and the
+ * proxy variable of the origin's scheme apply to each endpoint and scenario step
+ * @param config - User configuration
+ * @param urls - Absolute request URLs
+ * @returns Proxy by origin, without the origins reached directly
+ */
+function resolveProxies(config: BenchConfig, urls: string[]): Record<string, ProxyConfig> {
+  const proxies: Record<string, ProxyConfig> = {}
+
+  for (const origin of new Set(urls.map(url => new URL(url).origin))) {
+    const proxy = resolveProxy({ ...config, url: origin })
+    if (proxy !== null) {
+      proxies[origin] = proxy
+    }
+  }
+
+  return proxies
+}
+
+/**
+ * Validates that the run can go through a proxy, which only HTTP/1.1 connections
+ * over TCP can
+ * @param config - User configuration
+ */
+function validateProxy(config: BenchConfig): void {
+  if (config.http2 !== undefined && config.http2 !== false) {
+    throw new Error('Proxies are only supported over HTTP/1.1')
+  }
+  if (config.socketPath !== undefined) {
+    throw new Error('A Unix socket target cannot be reached through a proxy')
+  }
+}
+
+/**
+ * Copies a binary body into shared memory once, so every worker reads the same
+ * bytes instead of receiving its own copy
+ * @param body - Request body
+ * @returns Body backed by a SharedArrayBuffer, or the body unchanged if it is not binary
+ */
+function shareBody(body: string | Buffer | null): string | Buffer | null {
+  if (body === null || typeof body === 'string') {
+    return body
+  }
+
+  const shared = Buffer.from(new SharedArrayBuffer(body.byteLength))
+  body.copy(shared)
+  return shared
+}
+
+/**
+ * Validates a staged load profile
+ * @param stages - Load stages
+ * @param config - User configuration the stages are part of
+ */
+function validateStages(stages: LoadStage[], config: BenchConfig): void {
+  if (stages.length === 0) {
+    throw new Error('A load profile needs at least one stage')
+  }
+
+  if (stages.some(stage => !(stage.duration > 0) || !(stage.target >= 0))) {
+    throw new Error('Each stage needs a positive duration and a non-negative target')
+  }
+
+  if (config.rampUp !== undefined || config.rampDown !== undefined) {
+    throw new Error('Load stages cannot be combined with ramp-up or ramp-down')
+  }
+}
+
+/**
+ * Validates a scenario
+ * @param scenario - Scenario configuration
+ * @param config - User configuration the scenario runs with
+ */
+function validateScenario(scenario: ScenarioConfig, config: BenchConfig): void {
+  if (scenario.steps.length === 0) {
+    throw new Error(`Scenario "${scenario.name}" has no steps`)
+  }
+
+  if (scenario.iterations !== undefined && !(scenario.iterations > 0)) {
+    throw new Error('Scenario iterations must be positive')
+  }
+
+  if (config.arrival !== undefined) {
+    throw new Error('Scenarios run as virtual users and cannot use open-model arrivals')
+  }
+}
+
+/**
+ * Validates a weighted request mix
+ * @param endpoints - Endpoints of the mix
+ * @param scenario - Scenario configuration, if any
+ */
+function validateEndpoints(endpoints: EndpointConfig[], scenario: ScenarioConfig | null): void {
+  if (endpoints.length === 0) {
+    throw new Error('A request mix needs at least one endpoint')
+  }
+
+  if (endpoints.some(endpoint => endpoint.weight !== undefined && !(endpoint.weight > 0))) {
+    throw new Error('Endpoint weights must be positive')
+  }
+
+  if (scenario !== null) {
+    throw new Error('Scenarios cannot be combined with a request mix')
+  }
+}
+
+/**
+ * Resolves a request URL against the run's URL: a URL without a scheme, such as
+ * `/login` or `{{base}}/x`, is taken as a path on the run's origin
+ * @param url - URL as given
+ * @param baseUrl - Run URL
+ * @returns Absolute URL, with placeholders kept as written
+ */
+function resolveRequestUrl(url: string, baseUrl: string): string {
+  return ABSOLUTE_URL_PATTERN.test(url)
+    ? url
+    : `${new URL(baseUrl).origin}${url.startsWith('/') ? '' : '/'}${url}`
+}
+
+/**
+ * Checks that a request URL parses, so a bad URL fails before any worker starts
+ * instead of inside one. Placeholders are only allowed after the origin.
+ * @param url - Request URL
+ * @param owner - What the URL belongs to, or null for the run's URL
+ */
+function validateRequestUrl(url: string, owner: string | null): void {
+  try {
+    new URL(url)
+  } catch {
+    const target = owner !== null ? ` for the ${owner}` : ''
+    throw new Error(`Invalid URL "${url}"${target}: expected an absolute http:// or https:// URL`)
+  }
+}
+
+/**
+ * Fills in an endpoint's defaults and resolves a relative URL against the run's URL
+ * @param endpoint - Endpoint configuration
+ * @param baseUrl - Run URL
+ * @returns Endpoint with name, absolute URL, method and weight set
+ */
+function normalizeEndpoint(endpoint: EndpointConfig, baseUrl: string): EndpointConfig {
+  const method = endpoint.method ?? DEFAULT_METHOD
+
+  return {
+    ...endpoint,
+    name: endpoint.name ?? `${method} ${endpoint.url}`,
+    url: resolveRequestUrl(endpoint.url, baseUrl),
+    method,
+    weight: endpoint.weight ?? 1
+  }
+}
+
+/**
+ * Compiles the templated parts of every request up front, so invalid template
+ * expressions fail before any worker starts
+ * @param config - User configuration
+ * @param scenario - Scenario configuration, if any
+ */
+function validateTemplates(config: BenchConfig, scenario: ScenarioConfig | null): void {
+  const requests = scenario?.steps ?? config.requests ?? [config]
+
+  for (const request of requests) {
+    validateTemplate(request.url)
+    Object.values({ ...config.headers, ...request.headers }).forEach(validateTemplate)
+    if (typeof request.body === 'string') {
+      validateTemplate(request.body)
+    }
+  }
+}
+
+/**
+ * Calculates optimal worker count. HTTP/2 runs use no more workers than sessions,
+ * so every worker has a session of its own.
+ * @param connections - Total connections
+ * @param sessions - Total HTTP/2 sessions, if any
  * @returns Number of workers to spawn
  */
-function calculateWorkerCount(connections: number): number {
+function calculateWorkerCount(connections: number, sessions: number | null = null): number {
   const cpuCount = Math.max(1, cpus().length)
-  return Math.min(MAX_WORKERS, cpuCount, connections)
+  return Math.min(MAX_WORKERS, cpuCount, connections, sessions ?? Infinity)
+}
+
+/**
+ * Splits a total as evenly as possible, giving the remainder to the first parts
+ * @param total - Total to split
+ * @param parts - Number of parts
+ * @param index - Index of the part to compute
+ * @returns Share of the total for the given part
+ */
+function splitEvenly(total: number, parts: number, index: number): number {
+  const base = Math.floor(total / parts)
+  return index < total % parts ? base + 1 : base
+}
+
+/**
+ * Summarizes each stage of a staged run over the part of it that was measured
+ * @param stages - Load stages
+ * @param metrics - Aggregated metrics per stage
+ * @param warmupSec - Warmup taken from the start of the profile
+ * @returns Stage stats
+ */
+function toStageStats(
+  stages: LoadStage[],
+  metrics: AggregatedMetrics[],
+  warmupSec: number
+): StageStats[] {
+  let startSec = 0
+
+  return stages.flatMap((stage, index) => {
+    const endSec = startSec + stage.duration
+    const measuredSec = Math.max(0, endSec - Math.max(startSec, warmupSec))
+    startSec = endSec
+
+    const stageMetrics = metrics[index]
+    if (stageMetrics === undefined) {
+      return []
+    }
+
+    const elapsedSec = Math.max(measuredSec, Number.EPSILON)
+    return [
+      {
+        ...toPhaseStats(stageMetrics, measuredSec),
+        target: stage.target,
+        throughput: {
+          rps: Math.round((stageMetrics.totalRequests / elapsedSec) * 100) / 100,
+          bytesPerSecond: Math.round(stageMetrics.totalBytes / elapsedSec)
+        }
+      }
+    ]
+  })
+}
+
+/**
+ * Summarizes a scenario run per step
+ * @param scenario - Scenario configuration
+ * @param iterations - Iterations completed across all virtual users
+ * @param steps - Aggregated metrics per step
+ * @returns Scenario stats
+ */
+function toScenarioStats(
+  scenario: ScenarioConfig,
+  iterations: number,
+  steps: AggregatedStepMetrics[]
+): ScenarioStats {
+  return {
+    name: scenario.name,
+    iterations,
+    steps: scenario.steps.flatMap((step, index) => {
+      const stepMetrics = steps[index]
+      if (stepMetrics === undefined) {
+        return []
+      }
+
+      return [
+        {
+          name: step.name,
+          url: step.url,
+          method: step.method ?? DEFAULT_METHOD,
+          requests: {
+            total: stepMetrics.totalRequests,
+            successful: stepMetrics.successfulRequests,
+            failed: stepMetrics.failedRequests
+          },
+          latency: stepMetrics.latency,
+          errors: stepMetrics.errors,
+          expectations: stepMetrics.expectations
+        }
+      ]
+    })
+  }
+}
+
+/**
+ * Summarizes a request mix per endpoint
+ * @param endpoints - Normalized endpoints
+ * @param metrics - Aggregated metrics per endpoint
+ * @returns Endpoint stats
+ */
+function toEndpointStats(
+  endpoints: EndpointConfig[],
+  metrics: AggregatedMetrics[]
+): EndpointStats[] {
+  return endpoints.flatMap((endpoint, index) => {
+    const endpointMetrics = metrics[index]
+    if (endpointMetrics === undefined) {
+      return []
+    }
+
+    return [
+      {
+        name: endpoint.name ?? endpoint.url,
+        url: endpoint.url,
+        method: endpoint.method ?? DEFAULT_METHOD,
+        weight: endpoint.weight ?? 1,
+        requests: {
+          total: endpointMetrics.totalRequests,
+          successful: endpointMetrics.successfulRequests,
+          failed: endpointMetrics.failedRequests
+        },
+        latency: endpointMetrics.latency,
+        errors: endpointMetrics.errors
+      }
+    ]
+  })
+}
+
+/**
+ * Summarizes metrics reported separately from the steady-state totals
+ * @param metrics - Aggregated metrics for the phase
+ * @param durationSec - Time spent in the phase
+ * @returns Phase stats
+ */
+function toPhaseStats(metrics: AggregatedMetrics, durationSec: number): PhaseStats {
+  return {
+    duration: durationSec,
+    requests: {
+      total: metrics.totalRequests,
+      successful: metrics.successfulRequests,
+      failed: metrics.failedRequests
+    },
+    latency: metrics.latency
+  }
 }
 
 /**
@@ -87,22 +658,26 @@ function getWorkerPath(): string {
  */
 export class Orchestrator {
   private readonly config: NormalizedConfig
-  private readonly aggregator: MetricsAggregator = new MetricsAggregator()
+  private readonly aggregator: MetricsAggregator
   private readonly workers: Map<number, Worker> = new Map()
   private readonly lifecycle: LifecycleManager
   private workerCount: number
   private completedWorkers: number = 0
   private resolvePromise: ((result: BenchResult) => void) | null = null
   private rejectPromise: ((error: Error) => void) | null = null
-  private startTime: number = 0
 
   /**
    * Creates a benchmark orchestrator
    * @param config - Benchmark configuration
+   * @param scenario - Scenario each connection runs as a virtual user, if any
    */
-  constructor(config: BenchConfig) {
-    this.config = normalizeConfig(config)
-    this.workerCount = calculateWorkerCount(this.config.connections)
+  constructor(config: BenchConfig, scenario: ScenarioConfig | null = null) {
+    this.config = normalizeConfig(resolveSocketTarget(config), scenario)
+    this.aggregator = new MetricsAggregator(this.config.histogram)
+    this.workerCount = calculateWorkerCount(
+      this.config.connections,
+      this.config.http2?.sessions ?? null
+    )
     this.lifecycle = new LifecycleManager(this.config.duration, this.config.warmup)
   }
 
@@ -116,7 +691,6 @@ export class Orchestrator {
       this.rejectPromise = reject
 
       try {
-        this.startTime = performance.now()
         this.lifecycle.start()
         this.spawnWorkers()
       } catch (err: unknown) {
@@ -173,6 +747,7 @@ export class Orchestrator {
         break
       case 'metrics':
         this.aggregator.addSnapshot(message.payload)
+        this.lifecycle.update()
         break
       case 'done':
         this.aggregator.addSnapshot(message.payload)
@@ -194,12 +769,20 @@ export class Orchestrator {
       return
     }
 
-    const connectionsPerWorker = Math.ceil(this.config.connections / this.workerCount)
+    const connectionsPerWorker = splitEvenly(this.config.connections, this.workerCount, workerId)
     const ratePerWorker =
       this.config.rate !== null ? Math.ceil(this.config.rate / this.workerCount) : null
 
+    // Virtual users are numbered across the whole run, not per worker
+    let vuOffset = 0
+    for (let i = 0; i < workerId; i++) {
+      vuOffset += splitEvenly(this.config.connections, this.workerCount, i)
+    }
+
     const workerConfig: WorkerConfig = {
       id: workerId,
+      workerCount: this.workerCount,
+      vuOffset,
       url: this.config.url,
       method: this.config.method,
       headers: this.config.headers,
@@ -207,14 +790,79 @@ export class Orchestrator {
       connections: connectionsPerWorker,
       duration: this.config.duration,
       rate: ratePerWorker,
+      arrival:
+        this.config.arrival !== null
+          ? {
+              distribution: this.config.arrival.distribution,
+              maxInFlight: Math.max(
+                1,
+                splitEvenly(this.config.arrival.maxInFlight, this.workerCount, workerId)
+              )
+            }
+          : null,
+      rampUp: this.config.rampUp,
+      rampDown: this.config.rampDown,
+      warmup: this.config.warmup,
+      stages: this.scaleStages(connectionsPerWorker),
+      scenario: this.config.scenario,
+      endpoints: this.config.endpoints,
+      assertions: this.config.assertions,
+      successStatus: this.config.successStatus,
+      data:
+        this.config.data !== null
+          ? {
+              order: this.config.data.order,
+              rows: partitionRows(
+                this.config.data.rows,
+                this.config.data.order,
+                this.workerCount,
+                workerId
+              )
+            }
+          : null,
       timeout: this.config.timeout,
-      http2: this.config.http2
+      pipelining: this.config.pipelining,
+      keepAlive: this.config.keepAlive,
+      churn: this.config.churn,
+      http2:
+        this.config.http2 !== null
+          ? {
+              sessions: splitEvenly(this.config.http2.sessions, this.workerCount, workerId),
+              maxConcurrentStreams: this.config.http2.maxConcurrentStreams
+            }
+          : null,
+      tls: this.config.tls,
+      socketPath: this.config.socketPath,
+      proxies: this.config.proxies,
+      cookies: this.config.cookies,
+      histogram: this.config.histogram
     }
 
     const startMessage: WorkerRequest = { type: 'start', config: workerConfig }
     worker.postMessage(startMessage)
   }
 
+  /**
+   * Scales stage targets to one worker's share of the load
+   * @param connectionsPerWorker - Connections assigned to the worker
+   * @returns Worker's load stages, or null for unstaged runs
+   */
+  private scaleStages(connectionsPerWorker: number): LoadStage[] | null {
+    if (this.config.stages === null) {
+      return null
+    }
+
+    const share =
+      this.config.stageTarget === 'rate'
+        ? 1 / this.workerCount
+        : connectionsPerWorker / this.config.connections
+
+    return this.config.stages.map(stage => ({
+      duration: stage.duration,
+      target: stage.target * share
+    }))
+  }
+
   /**
    * Handles worker completion
    */
@@ -227,11 +875,12 @@ export class Orchestrator {
   }
 
   /**
-   * Handles worker errors
+   * Handles worker errors, terminating the remaining workers so a failed run
+   * does not keep the process alive
    * @param error - Error that occurred
    */
   private handleWorkerError(error: Error): void {
-    this.stop()
+    this.cleanup()
     this.rejectPromise?.(error)
   }
 
@@ -252,9 +901,11 @@ export class Orchestrator {
    * Finalizes benchmark and creates result
    */
   private finalize(): void {
-    const endTime = performance.now()
-    const durationMs = endTime - this.startTime
-    const durationSec = durationMs / 1000
+    this.lifecycle.update()
+    const durationSec = this.lifecycle.getMeasuredMs() / 1000
+    // Ramp-up starts with the run, so any part of it inside the warmup is not counted twice
+    const rampSec = Math.max(0, this.config.rampUp - this.config.warmup) + this.config.rampDown
+    const steadySec = Math.max(durationSec - rampSec, Number.EPSILON)
 
     const metrics = this.aggregator.getMetrics()
 
@@ -264,14 +915,16 @@ export class Orchestrator {
       duration: Math.round(durationSec * 100) / 100,
       connections: this.config.connections,
       rate: this.config.rate,
+      successStatus: this.config.successStatus,
       requests: {
         total: metrics.totalRequests,
         successful: metrics.successfulRequests,
-        failed: metrics.failedRequests
+        failed: metrics.failedRequests,
+        missed: metrics.missedRequests
       },
       throughput: {
-        rps: Math.round((metrics.totalRequests / durationSec) * 100) / 100,
-        bytesPerSecond: Math.round(metrics.totalBytes / durationSec),
+        rps: Math.round((metrics.totalRequests / steadySec) * 100) / 100,
+        bytesPerSecond: Math.round(metrics.totalBytes / steadySec),
         totalBytes: metrics.totalBytes
       },
       latency: metrics.latency,
@@ -284,6 +937,56 @@ export class Orchestrator {
       }
     }
 
+    if (metrics.uncorrectedLatency !== null) {
+      result.coordinatedOmission = {
+        corrected: metrics.latency,
+        uncorrected: metrics.uncorrectedLatency
+      }
+    }
+
+    if (metrics.timings !== null) {
+      result.timings = metrics.timings
+    }
+
+    if (metrics.queue !== null) {
+      result.queue = metrics.queue
+    }
+
+    if (metrics.protocol !== null) {
+      result.protocol = metrics.protocol
+    }
+
+    result.connectionStats = metrics.connectionStats
+
+    if (this.config.socketPath !== null) {
+      result.socketPath = this.config.socketPath
+    }
+
+    const proxyUrls = new Set(Object.values(this.config.proxies).map(proxy => proxy.url))
+    if (proxyUrls.size > 0) {
+      result.meta.proxy = [...proxyUrls].join(', ')
+    }
+
+    if (metrics.warmup !== null) {
+      result.warmup = toPhaseStats(metrics.warmup, this.config.warmup)
+    }
+
+    if (metrics.ramp !== null) {
+      result.ramp = toPhaseStats(metrics.ramp, rampSec)
+    }
+
+    if (metrics.stages !== null && this.config.stages !== null) {
+      result.stages = toStageStats(this.config.stages, metrics.stages, this.config.warmup)
+    }
+
+    if (metrics.steps !== null && this.config.scenario !== null) {
+      result.scenario = toScenarioStats(this.config.scenario, metrics.iterations, metrics.steps)
+    }
+
+    if (metrics.endpoints !== null && this.config.endpoints !== null) {
+      result.endpoints = toEndpointStats(this.config.endpoints, metrics.endpoints)
+    }
+
     this.cleanup()
     this.lifecycle.complete()
     this.resolvePromise?.(result)
@@ -311,3 +1014,33 @@ export async function runBenchmark(config: BenchConfig): Promise<BenchResult> {
   const orchestrator = new Orchestrator(config)
   return orchestrator.run()
 }
+
+/**
+ * Runs a scenario: each connection is a virtual user that works through the
+ * steps in order, for `iterations` rounds or until `duration` elapses
+ * @param scenario - Scenario configuration
+ * @param options - Benchmark options applied to every step (scenario settings take precedence)
+ * @returns Benchmark result with per-step stats in `scenario`
+ */
+export async function runScenario(
+  scenario: ScenarioConfig,
+  options: BenchOptions = {}
+): Promise<BenchResult> {
+  const [firstStep] = scenario.steps
+  const duration =
+    scenario.duration ??
+    options.duration ??
+    (scenario.iterations !== undefined ? Infinity : DEFAULT_DURATION_SEC)
+
+  const orchestrator = new Orchestrator(
+    {
+      ...options,
+      url: firstStep?.url ?? '',
+      method: firstStep?.method ?? DEFAULT_METHOD,
+      connections: scenario.connections ?? options.connections,
+      duration
+    },
+    scenario
+  )
+  return orchestrator.run()
+}
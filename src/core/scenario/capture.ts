@@ -0,0 +1,110 @@
+import type { CaptureSpec } from '../../types.js'
+
+/**
+ * Response data a capture can read from
+ */
+export type CaptureSource = {
+  headers: Record<string, string | string[] | undefined>
+  body: string
+}
+
+/**
+ * Capture compiled for repeated use: reads one named value from a response
+ */
+export type CompiledCapture = {
+  name: string
+  read: (source: CaptureSource) => string | null
+}
+
+/**
+ * Variables captured by one virtual user, by name
+ */
+export type CaptureVariables = Map<string, string>
+
+/**
+ * Converts a JSON value to the string substituted into later requests
+ * @param value - JSON value
+ * @returns String form, or null for missing values
+ */
+function stringifyValue(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Splits a JSON path such as $.data.items[0].id into property keys
+ * @param path - JSON path
+ * @returns Keys in order
+ */
+export function parseJsonPath(path: string): string[] {
+  return path
+    .replace(/^\$\.?/, '')
+    .split(/\.|\[(\d+)\]/)
+    .filter((key): key is string => key !== undefined && key !== '')
+}
+
+/**
+ * Reads a value from a parsed JSON document
+ * @param document - Parsed JSON
+ * @param keys - Property keys from parseJsonPath
+ * @returns Value at the path, or undefined
+ */
+export function readJsonPath(document: unknown, keys: string[]): unknown {
+  let current = document
+
+  for (const key of keys) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[key]
+  }
+
+  return current
+}
+
+/**
+ * Compiles a capture, parsing its JSON path or regular expression once
+ * @param name - Variable name the value is stored under
+ * @param spec - Where to read the value from
+ * @returns Compiled capture
+ */
+export function compileCapture(name: string, spec: CaptureSpec): CompiledCapture {
+  if ('json' in spec) {
+    const keys = parseJsonPath(spec.json)
+    return {
+      name,
+      read: source => {
+        try {
+          return stringifyValue(readJsonPath(JSON.parse(source.body), keys))
+        } catch {
+          return null
+        }
+      }
+    }
+  }
+
+  if ('header' in spec) {
+    const header = spec.header.toLowerCase()
+    return {
+      name,
+      read: source => {
+        const value = source.headers[header]
+        return (Array.isArray(value) ? value[0] : value) ?? null
+      }
+    }
+  }
+
+  const pattern = new RegExp(spec.regex)
+  return {
+    name,
+    read: source => {
+      const match = pattern.exec(source.body)
+      if (match === null) {
+        return null
+      }
+      return match[spec.group ?? (match.length > 1 ? 1 : 0)] ?? null
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, mock, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { ArrivalScheduler, createArrivalScheduler } from './arrival.js'
+import { RampScheduler } from './ramp.js'
+
+/**
+ * Replaces performance.now() with a clock the test moves by hand
+ * @param start - Initial time in milliseconds
+ * @returns Function setting the current time
+ */
+function useFakeClock(start: number): (now: number) => void {
+  let now = start
+  mock.method(performance, 'now', () => now)
+  return value => {
+    now = value
+  }
+}
+
+/**
+ * Takes arrivals from a scheduler whose clock is past all of them
+ * @param scheduler - Arrival scheduler
+ * @param count - Number of arrivals
+ * @returns Arrival times in milliseconds
+ */
+async function takeArrivals(scheduler: ArrivalScheduler, count: number): Promise<number[]> {
+  const arrivals: number[] = []
+  for (let i = 0; i < count; i++) {
+    arrivals.push(await scheduler.acquire())
+  }
+  return arrivals
+}
+
+/**
+ * Gets the gaps between consecutive arrivals
+ * @param arrivals - Arrival times
+ * @returns Gaps in milliseconds
+ */
+function gapsOf(arrivals: number[]): number[] {
+  return arrivals.slice(1).map((arrival, index) => arrival - (arrivals[index] ?? 0))
+}
+
+void describe('ArrivalScheduler', () => {
+  afterEach(() => {
+    mock.restoreAll()
+  })
+
+  void it('spaces constant arrivals evenly', async () => {
+    const setNow = useFakeClock(0)
+    const scheduler = new ArrivalScheduler(100, 'constant')
+    setNow(1_000_000)
+
+    assert.deepEqual(await takeArrivals(scheduler, 4), [0, 10, 20, 30])
+  })
+
+  void it('draws exponential gaps for poisson arrivals', async () => {
+    const setNow = useFakeClock(0)
+    const scheduler = new ArrivalScheduler(100, 'poisson')
+    setNow(1_000_000)
+    const draws = [0.5, 0.9, 0.1]
+    mock.method(Math, 'random', () => draws.shift() ?? 0)
+
+    const gaps = gapsOf(await takeArrivals(scheduler, 4))
+    const expected = [0.5, 0.9, 0.1].map(u => (-Math.log(1 - u) / 100) * 1000)
+    gaps.forEach((gap, index) => assert.ok(Math.abs(gap - (expected[index] ?? 0)) < 1e-9))
+  })
+
+  void it('keeps the mean rate of poisson arrivals with variable gaps', async () => {
+    const setNow = useFakeClock(0)
+    const poisson = new ArrivalScheduler(100, 'poisson')
+    setNow(Infinity)
+
+    const gaps = gapsOf(await takeArrivals(poisson, 5001))
+    const mean = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length
+    const variance = gaps.reduce((sum, gap) => sum + (gap - mean) ** 2, 0) / gaps.length
+
+    // Exponential gaps have a standard deviation equal to their mean
+    assert.ok(Math.abs(mean - 10) < 1, `mean gap ${mean}`)
+    assert.ok(Math.abs(Math.sqrt(variance) / mean - 1) < 0.15, `deviation ${Math.sqrt(variance)}`)
+  })
+
+  void it('waits for the next arrival', async () => {
+    const scheduler = new ArrivalScheduler(10, 'constant')
+
+    const first = await scheduler.acquire()
+    const second = await scheduler.acquire()
+    assert.ok(Math.abs(second - first - 100) < 1e-6)
+    // Timers may fire a few milliseconds early, but not a whole interval
+    assert.ok(performance.now() - first >= 80, `returned after ${performance.now() - first} ms`)
+  })
+
+  void it('returns an arrival after the deadline without waiting', async () => {
+    const scheduler = new ArrivalScheduler(1, 'constant')
+
+    const first = await scheduler.acquire()
+    const second = await scheduler.acquire(first + 500)
+    assert.equal(second, first + 1000)
+    assert.ok(performance.now() - first < 500)
+  })
+
+  void it('follows a ramp that brings the rate down to zero', async () => {
+    const setNow = useFakeClock(0)
+    // 10 req/s down to 0 over one second: five arrivals in total
+    const ramp = new RampScheduler([{ durationMs: 1000, from: 10, to: 0 }])
+    const scheduler = new ArrivalScheduler(10, 'constant', ramp)
+    setNow(1_000_000)
+
+    const arrivals = await takeArrivals(scheduler, 7)
+    assert.equal(arrivals[0], 0)
+    assert.ok(Math.abs((arrivals[5] ?? 0) - 1000) < 1e-6)
+    assert.equal(arrivals[6], Infinity)
+  })
+})
+
+void describe('createArrivalScheduler', () => {
+  void it('creates a scheduler only for open-model runs with a positive rate', () => {
+    assert.equal(createArrivalScheduler(100, null), null)
+    assert.equal(createArrivalScheduler(null, 'poisson'), null)
+    assert.equal(createArrivalScheduler(0, 'constant'), null)
+    assert.ok(createArrivalScheduler(100, 'poisson') instanceof ArrivalScheduler)
+  })
+})
@@ -0,0 +1,113 @@
+import type { ArrivalDistribution } from '../../types.js'
+import type { RampScheduler } from './ramp.js'
+
+/**
+ * Open-model arrival scheduler
+ *
+ * Produces request arrival times independently of when earlier responses
+ * complete, either at a constant interval or as a Poisson process with
+ * exponentially distributed gaps. With a ramp, arrivals follow the ramp's
+ * time-varying rate (a non-homogeneous process obtained by time rescaling).
+ */
+export class ArrivalScheduler {
+  private readonly ratePerSecond: number
+  private readonly distribution: ArrivalDistribution
+  private readonly ramp: RampScheduler | null
+  private readonly startTime: number
+  private expectedArrivals: number = 0
+
+  /**
+   * Creates an arrival scheduler
+   * @param ratePerSecond - Mean arrivals per second
+   * @param distribution - Inter-arrival distribution
+   * @param ramp - Optional ramp driving the rate over time
+   */
+  constructor(
+    ratePerSecond: number,
+    distribution: ArrivalDistribution,
+    ramp: RampScheduler | null = null
+  ) {
+    this.ratePerSecond = ratePerSecond
+    this.distribution = distribution
+    this.ramp = ramp
+    this.startTime = performance.now()
+  }
+
+  /**
+   * Waits for the next arrival to become due
+   * @param deadline - Arrivals at or after this time are returned without waiting
+   * @returns Intended start time of the arrival (performance.now() clock), or Infinity
+   * if a ramp has brought the rate down to zero for good
+   */
+  async acquire(deadline: number = Infinity): Promise<number> {
+    const arrival = this.arrivalTime(this.expectedArrivals)
+    this.expectedArrivals += this.nextGap()
+
+    const waitTime = arrival - performance.now()
+    if (waitTime > 0 && arrival < deadline) {
+      await this.sleep(waitTime)
+    }
+
+    return arrival
+  }
+
+  /**
+   * Gets the current mean rate
+   * @returns Rate per second
+   */
+  getRate(): number {
+    return this.ramp !== null ? this.ramp.getCurrentRate() : this.ratePerSecond
+  }
+
+  /**
+   * Draws the gap until the following arrival, in units of expected arrivals
+   * @returns Gap (1 on average)
+   */
+  private nextGap(): number {
+    switch (this.distribution) {
+      case 'constant':
+        return 1
+      case 'poisson':
+        return -Math.log(1 - Math.random())
+    }
+  }
+
+  /**
+   * Maps a cumulative expected arrival count to a point in time
+   * @param expectedArrivals - Cumulative expected arrivals
+   * @returns Arrival time (performance.now() clock)
+   */
+  private arrivalTime(expectedArrivals: number): number {
+    if (this.ramp !== null) {
+      return this.startTime + this.ramp.getElapsedForCount(expectedArrivals)
+    }
+    return this.startTime + (expectedArrivals / this.ratePerSecond) * 1000
+  }
+
+  /**
+   * Sleeps for specified milliseconds
+   * @param ms - Milliseconds to sleep
+   * @returns Promise that resolves after delay
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+  }
+}
+
+/**
+ * Creates an arrival scheduler if an open-model run is configured
+ * @param rate - Mean arrivals per second
+ * @param distribution - Inter-arrival distribution (null for closed-model runs)
+ * @param ramp - Optional ramp driving the rate over time
+ * @returns Arrival scheduler or null
+ */
+export function createArrivalScheduler(
+  rate: number | null,
+  distribution: ArrivalDistribution | null,
+  ramp: RampScheduler | null = null
+): ArrivalScheduler | null {
+  if (distribution === null || rate === null || rate <= 0) {
+    return null
+  }
+  return new ArrivalScheduler(rate, distribution, ramp)
+}
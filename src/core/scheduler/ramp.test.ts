@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { createRampScheduler, createStageScheduler } from './ramp.js'
+import type { RampScheduler } from './ramp.js'
+
+/**
+ * Asserts that two times are equal up to floating-point error
+ * @param actual - Time in milliseconds
+ * @param expected - Expected time in milliseconds
+ */
+function assertTime(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `expected ${expected}, got ${actual}`)
+}
+
+/**
+ * Creates a ramp scheduler that must exist
+ * @param args - Arguments of createRampScheduler
+ * @returns Ramp scheduler
+ */
+function rampScheduler(...args: Parameters<typeof createRampScheduler>): RampScheduler {
+  const ramp = createRampScheduler(...args)
+  assert.ok(ramp !== null)
+  return ramp
+}
+
+void describe('createRampScheduler', () => {
+  void it('creates no scheduler without a ramp', () => {
+    assert.equal(createRampScheduler(100, undefined), null)
+    assert.equal(createRampScheduler(100, 0, 0, 10), null)
+  })
+
+  void it('ramps up linearly and then holds the target', () => {
+    const ramp = rampScheduler(10, 1)
+
+    assert.equal(ramp.getRateAt(0), 0)
+    assert.equal(ramp.getRateAt(500), 5)
+    assert.equal(ramp.getRateAt(1000), 10)
+    assert.equal(ramp.getRateAt(60_000), 10)
+    assert.equal(ramp.isRampingAt(999), true)
+    assert.equal(ramp.isRampingAt(1000), false)
+  })
+
+  void it('solves the ramp-up schedule for request counts', () => {
+    const ramp = rampScheduler(10, 1)
+
+    // 0 -> 10 req/s over one second issues 5 t^2 requests by time t
+    assertTime(ramp.getElapsedForCount(0), 0)
+    assertTime(ramp.getElapsedForCount(1.25), 500)
+    assertTime(ramp.getElapsedForCount(5), 1000)
+    // then 10 req/s at the held target
+    assertTime(ramp.getElapsedForCount(15), 2000)
+  })
+
+  void it('holds between ramp-up and ramp-down', () => {
+    const ramp = rampScheduler(10, 1, 1, 4)
+
+    assert.deepEqual(
+      [0, 999, 1000, 2999, 3000, 3500].map(ms => ramp.getSegmentIndexAt(ms)),
+      [0, 0, 1, 1, 2, 2]
+    )
+    assert.equal(ramp.getRateAt(2000), 10)
+    assert.equal(ramp.getRateAt(3500), 5)
+    assert.equal(ramp.getRateAt(4000), 0)
+    assert.equal(ramp.isRampingAt(2000), false)
+    assert.equal(ramp.isRampingAt(3500), true)
+
+    // 5 requests ramping up, 20 held, 5 ramping down
+    assertTime(ramp.getElapsedForCount(5), 1000)
+    assertTime(ramp.getElapsedForCount(15), 2000)
+    assertTime(ramp.getElapsedForCount(25), 3000)
+    assertTime(ramp.getElapsedForCount(30), 4000)
+    assert.equal(ramp.getElapsedForCount(31), Infinity)
+  })
+
+  void it('skips a zero-length hold when the ramps fill the run', () => {
+    const ramp = rampScheduler(100, 0, 2, 2)
+
+    assert.equal(ramp.getRateAt(0), 100)
+    assert.equal(ramp.getSegmentIndexAt(0), 1)
+    assert.equal(ramp.isRampingAt(0), true)
+    assertTime(ramp.getElapsedForCount(0), 0)
+    assertTime(ramp.getElapsedForCount(100), 2000)
+    assert.equal(ramp.getElapsedForCount(101), Infinity)
+  })
+})
+
+void describe('createStageScheduler', () => {
+  const stages = [
+    { duration: 1, target: 10 },
+    { duration: 2, target: 10 },
+    { duration: 0, target: 50 },
+    { duration: 1, target: 0 }
+  ]
+
+  void it('interpolates each stage from the previous target', () => {
+    const ramp = createStageScheduler(stages)
+
+    assert.equal(ramp.getRateAt(500), 5)
+    assert.equal(ramp.getRateAt(1000), 10)
+    assert.equal(ramp.getRateAt(2999), 10)
+    // The zero-length stage jumps straight to its target
+    assert.equal(ramp.getRateAt(3000), 50)
+    assert.equal(ramp.getRateAt(3500), 25)
+    assert.equal(ramp.getRateAt(4000), 0)
+  })
+
+  void it('places boundaries in the stage that starts there', () => {
+    const ramp = createStageScheduler(stages)
+
+    assert.deepEqual(
+      [0, 999, 1000, 2999, 3000, 3999, 10_000].map(ms => ramp.getSegmentIndexAt(ms)),
+      [0, 0, 1, 1, 3, 3, 3]
+    )
+    assert.equal(ramp.isRampingAt(1000), false)
+    assert.equal(ramp.isRampingAt(3000), true)
+  })
+
+  void it('schedules request counts across stages', () => {
+    const ramp = createStageScheduler(stages)
+
+    assertTime(ramp.getElapsedForCount(5), 1000)
+    assertTime(ramp.getElapsedForCount(15), 2000)
+    assertTime(ramp.getElapsedForCount(25), 3000)
+    // 50 -> 0 req/s over the last second issues 25 more
+    assertTime(ramp.getElapsedForCount(50), 4000)
+    assert.equal(ramp.getElapsedForCount(51), Infinity)
+  })
+})
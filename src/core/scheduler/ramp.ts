@@ -1,22 +1,32 @@
+import type { LoadStage } from '../../types.js'
+
+/**
+ * Linear segment of a load profile
+ */
+export type RampSegment = {
+  durationMs: number
+  from: number
+  to: number
+}
+
 /**
  * Ramp scheduler for gradual load increase/decrease
+ *
+ * Describes load as consecutive linear segments (rate in requests per second,
+ * or a connection count). After the last segment the final value is held.
  */
 export class RampScheduler {
-  private readonly startRate: number
-  private readonly targetRate: number
-  private readonly rampUpMs: number
+  private readonly segments: RampSegment[]
+  private readonly totalMs: number
   private readonly startTime: number
 
   /**
    * Creates a ramp scheduler
-   * @param targetRate - Target rate to reach
-   * @param rampUpSeconds - Seconds to reach target rate
-   * @param startRate - Starting rate (default: 0)
+   * @param segments - Linear segments in order
    */
-  constructor(targetRate: number, rampUpSeconds: number, startRate: number = 0) {
-    this.startRate = startRate
-    this.targetRate = targetRate
-    this.rampUpMs = rampUpSeconds * 1000
+  constructor(segments: RampSegment[]) {
+    this.segments = segments
+    this.totalMs = segments.reduce((sum, segment) => sum + segment.durationMs, 0)
     this.startTime = performance.now()
   }
 
@@ -25,22 +35,95 @@ export class RampScheduler {
    * @returns Current rate (connections or RPS)
    */
   getCurrentRate(): number {
-    const elapsed = performance.now() - this.startTime
+    return this.getRateAt(performance.now() - this.startTime)
+  }
+
+  /**
+   * Gets the rate at a point in the profile
+   * @param elapsedMs - Milliseconds since the scheduler started
+   * @returns Rate (connections or RPS)
+   */
+  getRateAt(elapsedMs: number): number {
+    let offset = elapsedMs
+
+    for (const segment of this.segments) {
+      if (offset < segment.durationMs) {
+        return segment.from + (segment.to - segment.from) * (offset / segment.durationMs)
+      }
+      offset -= segment.durationMs
+    }
+
+    return this.getFinalRate()
+  }
+
+  /**
+   * Checks whether the profile is ramping (rather than holding) at a point in time
+   * @param elapsedMs - Milliseconds since the scheduler started
+   * @returns True if inside a segment whose rate changes
+   */
+  isRampingAt(elapsedMs: number): boolean {
+    let offset = elapsedMs
 
-    if (elapsed >= this.rampUpMs) {
-      return this.targetRate
+    for (const segment of this.segments) {
+      if (offset < segment.durationMs) {
+        return segment.from !== segment.to
+      }
+      offset -= segment.durationMs
     }
 
-    const progress = elapsed / this.rampUpMs
-    return this.startRate + (this.targetRate - this.startRate) * progress
+    return false
   }
 
   /**
-   * Checks if ramp-up is complete
-   * @returns True if target rate is reached
+   * Gets the segment a point in the profile falls in
+   * @param elapsedMs - Milliseconds since the scheduler started
+   * @returns Segment index, or the last index once the profile has elapsed
+   */
+  getSegmentIndexAt(elapsedMs: number): number {
+    let offset = elapsedMs
+
+    for (const [index, segment] of this.segments.entries()) {
+      if (offset < segment.durationMs) {
+        return index
+      }
+      offset -= segment.durationMs
+    }
+
+    return this.segments.length - 1
+  }
+
+  /**
+   * Gets the time by which a number of requests should have been issued at the
+   * profile's rate, i.e. the inverse of the cumulative request count
+   * @param count - Number of requests
+   * @returns Milliseconds since start, or Infinity if the profile never reaches the count
+   */
+  getElapsedForCount(count: number): number {
+    let remaining = count
+    let elapsedMs = 0
+
+    for (const segment of this.segments) {
+      const durationSec = segment.durationMs / 1000
+      const segmentCount = ((segment.from + segment.to) / 2) * durationSec
+
+      if (remaining <= segmentCount && segmentCount > 0) {
+        return elapsedMs + solveLinearRamp(segment.from, segment.to, durationSec, remaining) * 1000
+      }
+
+      remaining -= segmentCount
+      elapsedMs += segment.durationMs
+    }
+
+    const finalRate = this.getFinalRate()
+    return finalRate > 0 ? elapsedMs + (remaining / finalRate) * 1000 : Infinity
+  }
+
+  /**
+   * Checks if the whole profile has elapsed
+   * @returns True if the final rate is reached
    */
   isComplete(): boolean {
-    return performance.now() - this.startTime >= this.rampUpMs
+    return performance.now() - this.startTime >= this.totalMs
   }
 
   /**
@@ -48,32 +131,104 @@ export class RampScheduler {
    * @returns Progress from 0 to 100
    */
   getProgress(): number {
+    if (this.totalMs === 0) {
+      return 100
+    }
     const elapsed = performance.now() - this.startTime
-    return Math.min(100, (elapsed / this.rampUpMs) * 100)
+    return Math.min(100, (elapsed / this.totalMs) * 100)
   }
 
   /**
-   * Gets remaining time until ramp-up completes
+   * Gets remaining time until the profile completes
    * @returns Remaining milliseconds
    */
   getRemainingMs(): number {
     const elapsed = performance.now() - this.startTime
-    return Math.max(0, this.rampUpMs - elapsed)
+    return Math.max(0, this.totalMs - elapsed)
+  }
+
+  /**
+   * Gets the rate held after the last segment
+   * @returns Final rate
+   */
+  private getFinalRate(): number {
+    return this.segments[this.segments.length - 1]?.to ?? 0
   }
 }
 
 /**
- * Creates a ramp scheduler if ramp-up is specified
+ * Solves for the time at which a linearly changing rate has produced a count
+ * @param from - Rate at the start of the segment
+ * @param to - Rate at the end of the segment
+ * @param durationSec - Segment duration in seconds
+ * @param count - Count to reach within the segment
+ * @returns Seconds into the segment
+ */
+function solveLinearRamp(from: number, to: number, durationSec: number, count: number): number {
+  const slope = (to - from) / durationSec
+
+  if (count <= 0) {
+    return 0
+  }
+  if (slope === 0) {
+    return count / from
+  }
+
+  // count = from * t + slope * t^2 / 2, in a cancellation-free form
+  const discriminant = Math.max(0, from * from + 2 * slope * count)
+  return (2 * count) / (from + Math.sqrt(discriminant))
+}
+
+/**
+ * Creates a ramp scheduler if ramp-up or ramp-down is specified
  * @param targetRate - Target rate to reach
  * @param rampUpSeconds - Ramp-up duration in seconds
+ * @param rampDownSeconds - Ramp-down duration in seconds, ending at the end of the run
+ * @param durationSeconds - Total run duration in seconds
  * @returns Ramp scheduler or null
  */
 export function createRampScheduler(
   targetRate: number,
-  rampUpSeconds: number | undefined
+  rampUpSeconds: number | undefined,
+  rampDownSeconds: number | undefined = 0,
+  durationSeconds: number = Infinity
 ): RampScheduler | null {
-  if (rampUpSeconds === undefined || rampUpSeconds <= 0) {
+  const rampUp = Math.max(0, rampUpSeconds ?? 0)
+  const rampDown = Math.max(0, rampDownSeconds)
+
+  if (rampUp === 0 && rampDown === 0) {
     return null
   }
-  return new RampScheduler(targetRate, rampUpSeconds)
+
+  const segments: RampSegment[] = []
+
+  if (rampUp > 0) {
+    segments.push({ durationMs: rampUp * 1000, from: 0, to: targetRate })
+  }
+
+  if (rampDown > 0) {
+    const holdSeconds = Math.max(0, durationSeconds - rampUp - rampDown)
+    segments.push({ durationMs: holdSeconds * 1000, from: targetRate, to: targetRate })
+    segments.push({ durationMs: rampDown * 1000, from: targetRate, to: 0 })
+  }
+
+  return new RampScheduler(segments)
+}
+
+/**
+ * Creates a ramp scheduler that moves through a staged load profile, each stage
+ * interpolating linearly from the previous stage's target (starting at zero)
+ * @param stages - Load stages in order, with durations in seconds
+ * @returns Ramp scheduler
+ */
+export function createStageScheduler(stages: LoadStage[]): RampScheduler {
+  let from = 0
+
+  const segments = stages.map(stage => {
+    const segment: RampSegment = { durationMs: stage.duration * 1000, from, to: stage.target }
+    from = stage.target
+    return segment
+  })
+
+  return new RampScheduler(segments)
 }
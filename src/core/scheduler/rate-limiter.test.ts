@@ -0,0 +1,102 @@
+import { describe, it, mock, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { RateLimiter, createRateLimiter } from './rate-limiter.js'
+import { RampScheduler } from './ramp.js'
+
+/**
+ * Replaces performance.now() with a clock the test moves by hand
+ * @param start - Initial time in milliseconds
+ * @returns Function setting the current time
+ */
+function useFakeClock(start: number): (now: number) => void {
+  let now = start
+  mock.method(performance, 'now', () => now)
+  return value => {
+    now = value
+  }
+}
+
+void describe('RateLimiter', () => {
+  afterEach(() => {
+    mock.restoreAll()
+  })
+
+  void it('assigns slots at a fixed interval from the start', () => {
+    const setNow = useFakeClock(1000)
+    const limiter = new RateLimiter(100)
+
+    assert.equal(limiter.tryAcquire(), 1000)
+    assert.equal(limiter.tryAcquire(), null)
+
+    setNow(1010)
+    assert.equal(limiter.tryAcquire(), 1010)
+    assert.equal(limiter.getTokens(), 0)
+  })
+
+  void it('keeps the intended start of slots a caller reaches late', () => {
+    const setNow = useFakeClock(0)
+    const limiter = new RateLimiter(100)
+
+    setNow(35)
+    assert.equal(limiter.getTokens(), 4)
+    assert.deepEqual(
+      [limiter.tryAcquire(), limiter.tryAcquire(), limiter.tryAcquire(), limiter.tryAcquire()],
+      [0, 10, 20, 30]
+    )
+    assert.equal(limiter.tryAcquire(), null)
+  })
+
+  void it('returns a due slot from acquire without waiting', async () => {
+    const setNow = useFakeClock(0)
+    const limiter = new RateLimiter(10)
+
+    setNow(1000)
+    const started = Date.now()
+    assert.deepEqual(await Promise.all([limiter.acquire(), limiter.acquire()]), [0, 100])
+    assert.ok(Date.now() - started < 500)
+  })
+
+  void it('returns a slot at or after the deadline without waiting', async () => {
+    useFakeClock(0)
+    const limiter = new RateLimiter(1)
+
+    assert.equal(await limiter.acquire(500), 0)
+    const started = Date.now()
+    assert.equal(await limiter.acquire(500), 1000)
+    assert.ok(Date.now() - started < 500)
+  })
+
+  void it('waits in acquire until the slot is due', async () => {
+    const limiter = new RateLimiter(10)
+
+    const first = await limiter.acquire()
+    const second = await limiter.acquire()
+    assert.ok(Math.abs(second - first - 100) < 1e-6)
+    // Timers may fire a few milliseconds early, but not a whole interval
+    assert.ok(performance.now() - first >= 80, `returned after ${performance.now() - first} ms`)
+  })
+
+  void it('follows a ramp instead of the fixed rate', () => {
+    const setNow = useFakeClock(0)
+    // 0 -> 100 req/s over one second: the nth slot is due after sqrt(n / 50) seconds
+    const ramp = new RampScheduler([{ durationMs: 1000, from: 0, to: 100 }])
+    const limiter = new RateLimiter(100, ramp)
+
+    setNow(1000)
+    assert.equal(limiter.getTokens(), 51)
+    const slots = Array.from({ length: 3 }, () => limiter.tryAcquire())
+    assert.deepEqual(
+      slots.map(slot => Math.round(slot ?? NaN)),
+      [0, Math.round(Math.sqrt(1 / 50) * 1000), Math.round(Math.sqrt(2 / 50) * 1000)]
+    )
+  })
+})
+
+void describe('createRateLimiter', () => {
+  void it('creates no limiter without a positive rate', () => {
+    assert.equal(createRateLimiter(null), null)
+    assert.equal(createRateLimiter(0), null)
+    assert.ok(createRateLimiter(5) instanceof RateLimiter)
+  })
+})
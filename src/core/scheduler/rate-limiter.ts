@@ -1,85 +1,106 @@
+import type { RampScheduler } from './ramp.js'
+
 /**
- * Token bucket rate limiter for stable RPS under bursty scheduling
+ * Schedule-based rate limiter for stable RPS under bursty scheduling
+ *
+ * Requests are assigned consecutive slots on a fixed-interval schedule. A slot
+ * keeps its intended start time even when the caller reaches it late, so
+ * latency can be measured from when the request should have been sent rather
+ * than when a busy connection finally got to it (coordinated omission).
+ * With a ramp, slots follow the ramp's time-varying rate instead.
  */
 export class RateLimiter {
   private readonly ratePerSecond: number
   private readonly intervalMs: number
-  private tokens: number
-  private lastRefill: number
+  private readonly ramp: RampScheduler | null
+  private readonly startTime: number
+  private issued: number = 0
 
   /**
-   * Creates a token bucket rate limiter
+   * Creates a rate limiter
    * @param ratePerSecond - Maximum requests per second
+   * @param ramp - Optional ramp driving the rate over time
    */
-  constructor(ratePerSecond: number) {
+  constructor(ratePerSecond: number, ramp: RampScheduler | null = null) {
     this.ratePerSecond = ratePerSecond
     this.intervalMs = 1000 / ratePerSecond
-    this.tokens = ratePerSecond
-    this.lastRefill = performance.now()
+    this.ramp = ramp
+    this.startTime = performance.now()
   }
 
   /**
-   * Attempts to acquire a token, waiting if necessary
-   * @returns Promise that resolves when token is acquired
+   * Acquires the next slot on the schedule, waiting until it is due
+   * @param deadline - Slots at or after this time are returned without waiting
+   * @returns Intended start time of the slot (performance.now() clock), or Infinity
+   * if a ramp has brought the rate down to zero for good
    */
-  async acquire(): Promise<void> {
-    this.refill()
+  async acquire(deadline: number = Infinity): Promise<number> {
+    const slot = this.takeSlot()
+    const waitTime = slot - performance.now()
 
-    if (this.tokens >= 1) {
-      this.tokens -= 1
-      return
+    if (waitTime > 0 && slot < deadline) {
+      await this.sleep(waitTime)
     }
 
-    const waitTime = this.intervalMs - ((performance.now() - this.lastRefill) % this.intervalMs)
-    await this.sleep(Math.max(0, waitTime))
-    this.refill()
-    this.tokens -= 1
+    return slot
   }
 
   /**
-   * Tries to acquire a token without waiting
-   * @returns True if token was acquired
+   * Tries to acquire a slot without waiting
+   * @returns Intended start time of the slot, or null if none is due yet
    */
-  tryAcquire(): boolean {
-    this.refill()
-
-    if (this.tokens >= 1) {
-      this.tokens -= 1
-      return true
+  tryAcquire(): number | null {
+    if (this.slotTime(this.issued) > performance.now()) {
+      return null
     }
-
-    return false
+    return this.takeSlot()
   }
 
   /**
-   * Gets current token count
-   * @returns Available tokens
+   * Gets the number of slots that are due but not yet acquired
+   * @returns Available slots
    */
   getTokens(): number {
-    this.refill()
-    return this.tokens
+    const now = performance.now()
+
+    if (this.ramp === null) {
+      const behind = now - this.slotTime(this.issued)
+      return behind < 0 ? 0 : Math.floor(behind / this.intervalMs) + 1
+    }
+
+    let due = 0
+    while (this.slotTime(this.issued + due) <= now) {
+      due++
+    }
+    return due
   }
 
   /**
-   * Gets the configured rate
+   * Gets the current rate
    * @returns Rate per second
    */
   getRate(): number {
-    return this.ratePerSecond
+    return this.ramp !== null ? this.ramp.getCurrentRate() : this.ratePerSecond
   }
 
   /**
-   * Refills tokens based on elapsed time
+   * Takes the next slot and advances the schedule
+   * @returns Intended start time of the slot
    */
-  private refill(): void {
-    const now = performance.now()
-    const elapsed = now - this.lastRefill
-    const tokensToAdd = (elapsed / 1000) * this.ratePerSecond
+  private takeSlot(): number {
+    return this.slotTime(this.issued++)
+  }
 
-    if (tokensToAdd >= 1) {
-      this.tokens = Math.min(this.ratePerSecond, this.tokens + tokensToAdd)
-      this.lastRefill = now
+  /**
+   * Gets the intended start time of a slot
+   * @param index - Zero-based slot index
+   * @returns Intended start time (performance.now() clock)
+   */
+  private slotTime(index: number): number {
+    if (this.ramp !== null) {
+      return this.startTime + this.ramp.getElapsedForCount(index)
     }
+    return this.startTime + index * this.intervalMs
   }
 
   /**
@@ -95,11 +116,15 @@ export class RateLimiter {
 /**
  * Creates a rate limiter if rate is specified
  * @param rate - Requests per second (null for unlimited)
+ * @param ramp - Optional ramp driving the rate over time
  * @returns Rate limiter or null
  */
-export function createRateLimiter(rate: number | null): RateLimiter | null {
+export function createRateLimiter(
+  rate: number | null,
+  ramp: RampScheduler | null = null
+): RateLimiter | null {
   if (rate === null || rate <= 0) {
     return null
   }
-  return new RateLimiter(rate)
+  return new RateLimiter(rate, ramp)
 }
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+
+import { RequestTemplate, Template, validateTemplate } from './template.js'
+import type { TemplateContext } from './template.js'
+
+/**
+ * Builds a render context
+ * @param overrides - Values to change
+ * @returns Template context
+ */
+function context(overrides: Partial<TemplateContext> = {}): TemplateContext {
+  return { vu: 3, seq: 42, variables: null, row: null, ...overrides }
+}
+
+void describe('Template', () => {
+  void it('renders static text unchanged', () => {
+    const template = new Template('/items?page=1')
+    assert.equal(template.isStatic(), true)
+    assert.equal(template.render(context()), '/items?page=1')
+  })
+
+  void it('renders built-in functions per request', () => {
+    const template = new Template('/u/{{vu}}/{{ seq }}/{{uuid}}')
+    assert.equal(template.isStatic(), false)
+    assert.match(template.render(context()), /^\/u\/3\/42\/[0-9a-f-]{36}$/)
+  })
+
+  void it('renders randomInt within its inclusive bounds', () => {
+    const template = new Template('{{randomInt 1 3}}')
+    const seen = new Set(Array.from({ length: 200 }, () => template.render(context())))
+    assert.deepEqual([...seen].sort(), ['1', '2', '3'])
+    assert.equal(new Template('{{randomInt -2 -2}}').render(context()), '-2')
+  })
+
+  void it('renders randomString at the given length', () => {
+    assert.match(new Template('{{randomString 12}}').render(context()), /^[A-Za-z0-9]{12}$/)
+  })
+
+  void describe('argument validation', () => {
+    for (const [source, message] of [
+      ['{{randomInt 1}}', /expects 2 integer argument\(s\)/],
+      ['{{randomInt 1 2 3}}', /expects 2 integer argument\(s\)/],
+      ['{{randomInt a 5}}', /expects 2 integer argument\(s\)/],
+      ['{{randomInt 1.5 5}}', /expects 2 integer argument\(s\)/],
+      ['{{randomInt 5 1}}', /needs min <= max, got \{\{randomInt 5 1\}\}/],
+      ['{{randomString}}', /expects 1 integer argument\(s\)/],
+      ['{{randomString 0}}', /needs a positive length/],
+      ['{{randomString -3}}', /needs a positive length/]
+    ] as const) {
+      void it(`rejects ${source}`, () => {
+        assert.throws(() => validateTemplate(source), message)
+      })
+    }
+
+    void it('rejects arguments to unknown functions', () => {
+      assert.throws(
+        () => new Template('/x/{{lookup 1}}'),
+        /Unknown template function "lookup" in \{\{lookup 1\}\}/
+      )
+    })
+  })
+
+  void describe('variables and data rows', () => {
+    const template = new Template('/u/{{id}}?n={{ name }}')
+
+    void it('prefers captured values over data row columns', () => {
+      const rendered = template.render(
+        context({ variables: new Map([['id', '7']]), row: { id: '1', name: 'ann' } })
+      )
+      assert.equal(rendered, '/u/7?n=ann')
+    })
+
+    void it('leaves names without a value as written', () => {
+      assert.equal(template.render(context()), '/u/{{id}}?n={{ name }}')
+      assert.equal(template.render(context({ row: { id: '1' } })), '/u/1?n={{ name }}')
+      assert.equal(
+        template.render(context({ variables: new Map(), row: {} })),
+        '/u/{{id}}?n={{ name }}'
+      )
+    })
+  })
+})
+
+void describe('RequestTemplate', () => {
+  void it('renders the path, dynamic headers and string body', () => {
+    const template = new RequestTemplate(
+      '/orders/{{seq}}',
+      { accept: 'application/json', 'x-user': 'vu-{{vu}}' },
+      '{"user":"{{name}}"}'
+    )
+
+    assert.deepEqual(template.render(context({ row: { name: 'ann' } })), {
+      path: '/orders/42',
+      headers: { accept: 'application/json', 'x-user': 'vu-3' },
+      body: '{"user":"ann"}'
+    })
+  })
+
+  void it('sends binary bodies as-is', () => {
+    const body = Buffer.from('{{seq}}')
+    const rendered = new RequestTemplate('/', {}, body).render(context())
+    assert.equal(rendered.body, body)
+  })
+
+  void it('shares static headers between renders', () => {
+    const template = new RequestTemplate('/', { accept: '*/*' }, null)
+    assert.equal(template.render(context()).headers, template.render(context()).headers)
+  })
+})
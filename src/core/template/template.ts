@@ -0,0 +1,232 @@
+import { randomUUID } from 'node:crypto'
+
+import type { DataRow } from '../../types.js'
+import type { CaptureVariables } from '../scenario/capture.js'
+
+/**
+ * Per-request values a template renders with
+ */
+export type TemplateContext = {
+  vu: number
+  seq: number
+  variables: CaptureVariables | null
+  row: DataRow | null
+}
+
+/**
+ * Request fields after rendering
+ */
+export type RenderedRequest = {
+  path: string
+  headers: Record<string, string>
+  body: string | Buffer | null
+}
+
+/**
+ * Literal text or an expression evaluated per render
+ */
+type TemplatePart = string | ((context: TemplateContext) => string)
+
+/**
+ * Template expression syntax: a name followed by space-separated arguments,
+ * e.g. {{uuid}} or {{randomInt 1 1000}}
+ */
+const EXPRESSION_PATTERN = /\{\{\s*([\w.-]+)((?:\s+[^\s}]+)*)\s*\}\}/g
+
+/**
+ * Characters used by {{randomString n}}
+ */
+const RANDOM_STRING_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
+
+/**
+ * Parses integer arguments of a template function
+ * @param name - Function name
+ * @param args - Raw arguments
+ * @param count - Expected number of arguments
+ * @returns Parsed integers
+ */
+function parseIntegerArgs(name: string, args: string[], count: number): number[] {
+  const values = args.map(arg => Number(arg))
+
+  if (values.length !== count || values.some(value => !Number.isInteger(value))) {
+    throw new Error(`Template function "${name}" expects ${count} integer argument(s)`)
+  }
+
+  return values
+}
+
+/**
+ * Generates a random alphanumeric string
+ * @param length - String length
+ * @returns Random string
+ */
+function randomString(length: number): string {
+  let result = ''
+  for (let i = 0; i < length; i++) {
+    result += RANDOM_STRING_ALPHABET[Math.floor(Math.random() * RANDOM_STRING_ALPHABET.length)]
+  }
+  return result
+}
+
+/**
+ * Compiles one template expression. Names that are not built-in functions refer
+ * to values captured by the virtual user or to columns of the current data row,
+ * and are left as written while neither has a value.
+ * @param name - Function or variable name
+ * @param args - Raw arguments
+ * @param source - Expression as written
+ * @returns Template part
+ */
+function compileExpression(name: string, args: string[], source: string): TemplatePart {
+  switch (name) {
+    case 'uuid':
+      return () => randomUUID()
+    case 'seq':
+      return context => String(context.seq)
+    case 'vu':
+      return context => String(context.vu)
+    case 'timestamp':
+      return () => String(Date.now())
+    case 'randomInt': {
+      const [min = 0, max = 0] = parseIntegerArgs(name, args, 2)
+      if (max < min) {
+        throw new Error(`Template function "randomInt" needs min <= max, got ${source}`)
+      }
+      return () => String(min + Math.floor(Math.random() * (max - min + 1)))
+    }
+    case 'randomString': {
+      const [length = 0] = parseIntegerArgs(name, args, 1)
+      if (length <= 0) {
+        throw new Error(`Template function "randomString" needs a positive length, got ${source}`)
+      }
+      return () => randomString(length)
+    }
+    default:
+      if (args.length > 0) {
+        throw new Error(`Unknown template function "${name}" in ${source}`)
+      }
+      return context => context.variables?.get(name) ?? context.row?.[name] ?? source
+  }
+}
+
+/**
+ * String template compiled once and rendered per request
+ */
+export class Template {
+  private readonly parts: TemplatePart[]
+  private readonly source: string
+  private readonly dynamic: boolean
+
+  /**
+   * Compiles a template
+   * @param source - Text containing {{expression}} placeholders
+   */
+  constructor(source: string) {
+    this.source = source
+    this.parts = []
+
+    let last = 0
+    for (const match of source.matchAll(EXPRESSION_PATTERN)) {
+      const args = (match[2] ?? '').trim()
+      if (match.index > last) {
+        this.parts.push(source.slice(last, match.index))
+      }
+      this.parts.push(
+        compileExpression(match[1] ?? '', args === '' ? [] : args.split(/\s+/), match[0])
+      )
+      last = match.index + match[0].length
+    }
+    if (last < source.length) {
+      this.parts.push(source.slice(last))
+    }
+
+    this.dynamic = this.parts.some(part => typeof part !== 'string')
+  }
+
+  /**
+   * Checks whether the template renders the same text every time
+   * @returns True if it has no expressions
+   */
+  isStatic(): boolean {
+    return !this.dynamic
+  }
+
+  /**
+   * Renders the template
+   * @param context - Per-request values
+   * @returns Rendered text
+   */
+  render(context: TemplateContext): string {
+    if (!this.dynamic) {
+      return this.source
+    }
+
+    let result = ''
+    for (const part of this.parts) {
+      result += typeof part === 'string' ? part : part(context)
+    }
+    return result
+  }
+}
+
+/**
+ * Path, headers and body of a request, compiled once and rendered per request
+ */
+export class RequestTemplate {
+  private readonly path: Template
+  private readonly staticHeaders: Record<string, string>
+  private readonly dynamicHeaders: Array<[string, Template]>
+  private readonly body: Template | Buffer | null
+
+  /**
+   * Compiles a request template
+   * @param path - Request path
+   * @param headers - Request headers
+   * @param body - Request body (binary bodies are sent as-is)
+   */
+  constructor(path: string, headers: Record<string, string>, body: string | Buffer | null) {
+    this.path = new Template(path)
+    this.staticHeaders = {}
+    this.dynamicHeaders = []
+
+    for (const [name, value] of Object.entries(headers)) {
+      const template = new Template(value)
+      if (template.isStatic()) {
+        this.staticHeaders[name] = value
+      } else {
+        this.dynamicHeaders.push([name, template])
+      }
+    }
+
+    this.body = typeof body === 'string' ? new Template(body) : body
+  }
+
+  /**
+   * Renders the request
+   * @param context - Per-request values
+   * @returns Rendered path, headers and body
+   */
+  render(context: TemplateContext): RenderedRequest {
+    let headers = this.staticHeaders
+    if (this.dynamicHeaders.length > 0) {
+      headers = { ...this.staticHeaders }
+      for (const [name, template] of this.dynamicHeaders) {
+        headers[name] = template.render(context)
+      }
+    }
+
+    return {
+      path: this.path.render(context),
+      headers,
+      body: this.body instanceof Template ? this.body.render(context) : this.body
+    }
+  }
+}
+
+/**
+ * Compiles a template to check its expressions, throwing on invalid ones
+ * @param source - Template text
+ */
+export function validateTemplate(source: string): void {
+  new Template(source)
+}
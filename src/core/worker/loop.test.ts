@@ -0,0 +1,154 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer } from 'node:http'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import { RequestLoop } from './loop.js'
+import type { WorkerConfig } from '../../types.js'
+
+/**
+ * Server response delay in milliseconds
+ */
+const SERVER_DELAY_MS = 40
+
+/**
+ * Builds the configuration of a single-worker loop
+ * @param url - Target URL
+ * @param overrides - Options to change
+ * @returns Worker configuration
+ */
+function workerConfig(url: string, overrides: Partial<WorkerConfig> = {}): WorkerConfig {
+  return {
+    id: 0,
+    workerCount: 1,
+    vuOffset: 0,
+    url,
+    method: 'GET',
+    headers: {},
+    body: null,
+    connections: 1,
+    duration: 0.6,
+    rate: null,
+    arrival: null,
+    rampUp: 0,
+    rampDown: 0,
+    warmup: 0,
+    stages: null,
+    scenario: null,
+    data: null,
+    endpoints: null,
+    assertions: null,
+    successStatus: '2xx',
+    timeout: 5000,
+    pipelining: 1,
+    keepAlive: true,
+    churn: null,
+    http2: null,
+    tls: null,
+    socketPath: null,
+    proxies: {},
+    cookies: null,
+    histogram: { significantDigits: 3, maxLatency: 10_000 },
+    ...overrides
+  }
+}
+
+void describe('RequestLoop', () => {
+  let server: Server
+  let url: string
+  let inFlight = 0
+  let maxInFlight = 0
+
+  before(async () => {
+    server = createServer((req, res) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight)
+      setTimeout(() => {
+        inFlight--
+        res.statusCode = req.url === '/missing' ? 404 : 200
+        res.end('ok')
+      }, SERVER_DELAY_MS)
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+  })
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  void it('measures corrected latency from the intended start of each slot', async () => {
+    // One connection cannot keep up with a slot every 10 ms when each response takes
+    // 40 ms, so every request starts further behind its slot than the one before
+    const snapshot = await new RequestLoop(workerConfig(url, { rate: 100 })).run()
+
+    const corrected = snapshot.histogram
+    const uncorrected = snapshot.uncorrectedHistogram
+    assert.ok(corrected !== null && uncorrected !== null)
+    assert.ok(snapshot.requests >= 5, `only ${snapshot.requests} requests`)
+    assert.ok(uncorrected.max < SERVER_DELAY_MS * 1000 * 3, `uncorrected max ${uncorrected.max}`)
+
+    // The nth request waits about n * (40 - 10) ms for its slot on top of its own latency
+    const behindUs = (snapshot.requests - 1) * (SERVER_DELAY_MS - 10) * 1000
+    assert.ok(corrected.max >= uncorrected.min + behindUs * 0.8, `corrected max ${corrected.max}`)
+    assert.ok(corrected.sum > uncorrected.sum)
+  })
+
+  void it('drops open-model arrivals over the in-flight cap as missed', async () => {
+    maxInFlight = 0
+    const config = workerConfig(url, {
+      duration: 0.5,
+      rate: 200,
+      arrival: { distribution: 'constant', maxInFlight: 1 }
+    })
+    const snapshot = await new RequestLoop(config).run()
+
+    // 100 arrivals in half a second, but only one 40 ms request at a time. The schedule
+    // starts when the loop is created, just before the run, so one more may fit.
+    const arrivals = snapshot.requests + snapshot.missed
+    assert.ok(arrivals === 100 || arrivals === 101, `${arrivals} arrivals`)
+    assert.ok(snapshot.missed >= 50, `only ${snapshot.missed} missed`)
+    assert.equal(maxInFlight, 1)
+  })
+
+  void it('tracks no uncorrected latency without a schedule', async () => {
+    const snapshot = await new RequestLoop(workerConfig(url, { duration: 0.2 })).run()
+
+    assert.ok(snapshot.requests > 0)
+    assert.equal(snapshot.uncorrectedHistogram, null)
+  })
+
+  void describe('success status', () => {
+    void it('counts statuses outside the success policy as failed', async () => {
+      const snapshot = await new RequestLoop(workerConfig(`${url}missing`, { duration: 0.2 })).run()
+
+      assert.ok(snapshot.requests > 0)
+      assert.equal(snapshot.failed, snapshot.requests)
+      assert.equal(snapshot.errors.byStatusCode[404], snapshot.requests)
+    })
+
+    void it('lets an asserted status replace the success policy', async () => {
+      const config = workerConfig(`${url}missing`, {
+        duration: 0.2,
+        assertions: { status: [404] }
+      })
+      const snapshot = await new RequestLoop(config).run()
+
+      assert.ok(snapshot.requests > 0)
+      assert.equal(snapshot.successful, snapshot.requests)
+    })
+
+    void it('fails a status the policy accepts but the assertion does not', async () => {
+      const config = workerConfig(url, {
+        duration: 0.2,
+        successStatus: '2xx',
+        assertions: { status: [201] }
+      })
+      const snapshot = await new RequestLoop(config).run()
+
+      assert.ok(snapshot.requests > 0)
+      assert.equal(snapshot.failed, snapshot.requests)
+      assert.equal(snapshot.errors.assertions?.status, snapshot.requests)
+    })
+  })
+})
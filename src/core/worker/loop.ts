@@ -1,20 +1,62 @@
-import type { WorkerConfig, MetricsSnapshot, ErrorBreakdown } from '../../types.js'
+import type {
+  WorkerConfig,
+  MetricsSnapshot,
+  ConnectionStats,
+  DataRow,
+  EndpointConfig,
+  HttpMethod,
+  ScenarioConfig,
+  ScenarioStep
+} from '../../types.js'
 import { HttpClient } from '../http/client.js'
+import type { ConnectionTimings, RequestClient } from '../http/client.js'
+import { Http2Client, ProtocolDowngradeError } from '../http/http2-client.js'
+import { MetricsRecorder, StepRecorder, TimingRecorder } from '../metrics/recorder.js'
+import { createEmptyConnectionStats } from './messages.js'
+import { compileCapture } from '../scenario/capture.js'
+import type { CompiledCapture, CaptureVariables } from '../scenario/capture.js'
+import { RequestTemplate } from '../template/template.js'
+import type { RenderedRequest } from '../template/template.js'
+import { DataFeeder } from '../data/feeder.js'
+import { ResponseAssertions } from '../http/assertions.js'
+import { CookieJar } from '../http/cookies.js'
+import { createStatusPolicy } from '../http/status.js'
+import type { StatusPolicy } from '../http/status.js'
 import { createRateLimiter } from '../scheduler/rate-limiter.js'
 import type { RateLimiter } from '../scheduler/rate-limiter.js'
-import { SUCCESS_STATUS_CODES, METRICS_INTERVAL_MS } from '../../constants.js'
+import { createArrivalScheduler } from '../scheduler/arrival.js'
+import type { ArrivalScheduler } from '../scheduler/arrival.js'
+import { createRampScheduler, createStageScheduler } from '../scheduler/ramp.js'
+import type { RampScheduler } from '../scheduler/ramp.js'
+import { METRICS_INTERVAL_MS, RAMP_POLL_INTERVAL_MS, DEFAULT_METHOD } from '../../constants.js'
 
 /**
  * Request loop state
  */
 type LoopState = {
   running: boolean
-  requests: number
-  successful: number
-  failed: number
-  bytes: number
-  latencies: number[]
-  errors: ErrorBreakdown
+  startTime: number
+  missed: number
+  inFlight: number
+  iterations: number
+  sequence: number
+  connectionStats: ConnectionStats
+  error: Error | null
+}
+
+/**
+ * A request the loop sends, resolved against the connection pool for its origin.
+ * Plain runs send a single request; scenario runs send one per step, in order, and
+ * request mixes one per endpoint, picked by weight.
+ */
+type LoopRequest = {
+  client: RequestClient
+  origin: string
+  method: HttpMethod
+  template: RequestTemplate
+  delay: number
+  expect: NonNullable<ScenarioStep['expect']> | null
+  captures: CompiledCapture[]
 }
 
 /**
@@ -24,31 +66,75 @@ type LoopState = {
 function createInitialState(): LoopState {
   return {
     running: true,
-    requests: 0,
-    successful: 0,
-    failed: 0,
-    bytes: 0,
-    latencies: [],
-    errors: {
-      timeouts: 0,
-      connectionErrors: 0,
-      byStatusCode: {}
-    }
+    startTime: 0,
+    missed: 0,
+    inFlight: 0,
+    iterations: 0,
+    sequence: 0,
+    connectionStats: createEmptyConnectionStats(),
+    error: null
   }
 }
 
 /**
- * Extracts path from URL
+ * Scheme and authority of a URL, e.g. http://localhost:3000
+ */
+const ORIGIN_PATTERN = /^[a-z][a-z\d+.-]*:\/\/[^/?#]*/i
+
+/**
+ * Extracts origin from URL
+ * @param url - Full URL
+ * @returns Origin
+ */
+function extractOrigin(url: string): string {
+  return new URL(ORIGIN_PATTERN.exec(url)?.[0] ?? url).origin
+}
+
+/**
+ * Extracts path from URL, keeping it as written so placeholders survive
  * @param url - Full URL
  * @returns Path portion
  */
 function extractPath(url: string): string {
-  try {
-    const parsed = new URL(url)
-    return parsed.pathname + parsed.search
-  } catch {
+  const path = url.replace(ORIGIN_PATTERN, '').replace(/#.*$/, '')
+  if (path === '') {
     return '/'
   }
+  return path.startsWith('?') ? `/${path}` : path
+}
+
+/**
+ * Adds the cookies from a cookie jar to the request headers, after any Cookie header
+ * the request already sets
+ * @param headers - Rendered request headers
+ * @param cookies - Cookie header value from the jar
+ * @returns Request headers with the cookies
+ */
+function withCookies(headers: Record<string, string>, cookies: string): Record<string, string> {
+  const name = Object.keys(headers).find(key => key.toLowerCase() === 'cookie')
+  if (name === undefined) {
+    return { ...headers, cookie: cookies }
+  }
+  return { ...headers, [name]: `${headers[name]}; ${cookies}` }
+}
+
+/**
+ * Computes running totals of endpoint weights for weighted picks
+ * @param endpoints - Endpoints of a request mix
+ * @returns Cumulative weights, in endpoint order
+ */
+function cumulativeWeights(endpoints: EndpointConfig[]): number[] {
+  let total = 0
+  return endpoints.map(endpoint => (total += endpoint.weight ?? 1))
+}
+
+/**
+ * Sleeps for specified milliseconds
+ * @param ms - Milliseconds to sleep
+ * @returns Promise that resolves after delay
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
 }
 
 /**
@@ -56,9 +142,22 @@ function extractPath(url: string): string {
  */
 export class RequestLoop {
   private readonly config: WorkerConfig
-  private readonly client: HttpClient
+  private readonly clients: Map<string, RequestClient> = new Map()
+  private readonly ramp: RampScheduler | null
   private readonly rateLimiter: RateLimiter | null
-  private readonly path: string
+  private readonly arrivals: ArrivalScheduler | null
+  private readonly requests: LoopRequest[]
+  private readonly weights: number[] | null
+  private readonly feeder: DataFeeder | null
+  private readonly assertions: ResponseAssertions | null
+  private readonly isSuccessStatus: StatusPolicy
+  private readonly steadyMetrics: MetricsRecorder
+  private readonly warmupMetrics: MetricsRecorder | null
+  private readonly rampMetrics: MetricsRecorder | null
+  private readonly stageMetrics: MetricsRecorder[] | null
+  private readonly stepMetrics: StepRecorder[] | null
+  private readonly endpointMetrics: MetricsRecorder[] | null
+  private readonly timingMetrics: TimingRecorder
   private state: LoopState
   private metricsCallback: ((snapshot: MetricsSnapshot) => void) | null = null
   private metricsInterval: ReturnType<typeof setInterval> | null = null
@@ -69,18 +168,68 @@ export class RequestLoop {
    */
   constructor(config: WorkerConfig) {
     this.config = config
-    this.path = extractPath(config.url)
     this.state = createInitialState()
 
-    const baseUrl = new URL(config.url).origin
-    this.client = new HttpClient({
-      baseUrl,
-      connections: config.connections,
-      timeout: config.timeout,
-      http2: config.http2
-    })
+    if (config.scenario !== null) {
+      this.requests = config.scenario.steps.map(step => this.createStepRequest(step))
+    } else if (config.endpoints !== null) {
+      this.requests = config.endpoints.map(endpoint => this.createEndpointRequest(endpoint))
+    } else {
+      this.requests = [
+        {
+          ...this.resolve(config.url, config.headers, config.body),
+          method: config.method,
+          delay: 0,
+          expect: null,
+          captures: []
+        }
+      ]
+    }
+    this.weights = config.endpoints !== null ? cumulativeWeights(config.endpoints) : null
 
-    this.rateLimiter = createRateLimiter(config.rate)
+    this.isSuccessStatus = createStatusPolicy(config.successStatus)
+    this.assertions = config.assertions !== null ? new ResponseAssertions(config.assertions) : null
+    this.feeder =
+      config.data !== null
+        ? new DataFeeder(
+            config.data.rows,
+            config.data.order,
+            Math.floor((config.data.rows.length * config.id) / config.workerCount)
+          )
+        : null
+
+    // Ramps and stages drive the rate when one is set, otherwise the number of active
+    // connections. The profile spans the whole run, so it starts during any warmup.
+    this.ramp =
+      config.stages !== null
+        ? createStageScheduler(config.stages)
+        : createRampScheduler(
+            config.rate ?? config.connections,
+            config.rampUp,
+            config.rampDown,
+            config.warmup + config.duration
+          )
+    this.arrivals = createArrivalScheduler(
+      config.rate,
+      config.arrival?.distribution ?? null,
+      this.ramp
+    )
+    this.rateLimiter = this.arrivals === null ? createRateLimiter(config.rate, this.ramp) : null
+
+    const scheduled = config.rate !== null
+    this.steadyMetrics = new MetricsRecorder(config.histogram, scheduled)
+    this.warmupMetrics = config.warmup > 0 ? new MetricsRecorder(config.histogram, scheduled) : null
+    this.rampMetrics =
+      this.ramp !== null && config.stages === null
+        ? new MetricsRecorder(config.histogram, scheduled)
+        : null
+    this.stageMetrics =
+      config.stages?.map(() => new MetricsRecorder(config.histogram, scheduled)) ?? null
+    this.stepMetrics =
+      config.scenario?.steps.map(() => new StepRecorder(config.histogram, scheduled)) ?? null
+    this.endpointMetrics =
+      config.endpoints?.map(() => new MetricsRecorder(config.histogram, scheduled)) ?? null
+    this.timingMetrics = new TimingRecorder(config.histogram)
   }
 
   /**
@@ -96,72 +245,472 @@ export class RequestLoop {
    * @returns Final metrics snapshot
    */
   async run(): Promise<MetricsSnapshot> {
-    const endTime = performance.now() + this.config.duration * 1000
+    this.state.startTime = performance.now()
+    const endTime = this.state.startTime + (this.config.warmup + this.config.duration) * 1000
 
     this.startMetricsReporting()
 
+    if (this.arrivals !== null) {
+      await this.runOpenModel(this.arrivals, endTime)
+    } else {
+      const connections: Promise<void>[] = []
+      for (let i = 0; i < this.config.connections; i++) {
+        connections.push(this.runConnection(i, endTime))
+      }
+      await Promise.all(connections)
+    }
+
+    this.stopMetricsReporting()
+    await Promise.all([...this.clients.values()].map(client => client.close()))
+
+    if (this.state.error !== null) {
+      throw this.state.error
+    }
+
+    return this.takeSnapshot()
+  }
+
+  /**
+   * Stops the request loop
+   */
+  stop(): void {
+    this.state.running = false
+  }
+
+  /**
+   * Resolves a URL to the connection pool for its origin and compiles the request template
+   * @param url - Full URL
+   * @param headers - Request headers
+   * @param body - Request body
+   * @returns Client, origin and request template
+   */
+  private resolve(
+    url: string,
+    headers: Record<string, string>,
+    body: string | Buffer | null
+  ): Pick<LoopRequest, 'client' | 'origin' | 'template'> {
+    const origin = extractOrigin(url)
+    let client = this.clients.get(origin)
+
+    if (client === undefined) {
+      const events = {
+        onConnection: (timings: ConnectionTimings): void => this.recordConnection(timings),
+        onReuse: (): void => this.recordConnectionEvent('reused'),
+        onServerClose: (): void => this.recordConnectionEvent('closedByServer')
+      }
+      client =
+        this.config.http2 !== null
+          ? new Http2Client({
+              baseUrl: origin,
+              sessions: this.config.http2.sessions,
+              maxConcurrentStreams: this.config.http2.maxConcurrentStreams,
+              timeout: this.config.timeout,
+              tls: this.config.tls,
+              socketPath: this.config.socketPath,
+              ...events
+            })
+          : new HttpClient({
+              baseUrl: origin,
+              connections: this.config.connections,
+              timeout: this.config.timeout,
+              pipelining: this.config.pipelining,
+              keepAlive: this.config.keepAlive,
+              churn: this.config.churn,
+              tls: this.config.tls,
+              socketPath: this.config.socketPath,
+              proxy: this.config.proxies[origin] ?? null,
+              ...events
+            })
+      this.clients.set(origin, client)
+    }
+
+    // Binary bodies arrive as plain Uint8Array views over the shared bytes
+    const requestBody =
+      body === null || typeof body === 'string'
+        ? body
+        : Buffer.from(body.buffer, body.byteOffset, body.byteLength)
+
+    return {
+      client,
+      origin,
+      template: new RequestTemplate(extractPath(url), headers, requestBody)
+    }
+  }
+
+  /**
+   * Creates the request for a scenario step, layering step headers over the run's headers
+   * @param step - Scenario step
+   * @returns Loop request
+   */
+  private createStepRequest(step: ScenarioStep): LoopRequest {
+    return {
+      ...this.resolve(step.url, { ...this.config.headers, ...step.headers }, step.body ?? null),
+      method: step.method ?? DEFAULT_METHOD,
+      delay: step.delay ?? 0,
+      expect: step.expect ?? null,
+      captures: Object.entries(step.capture ?? {}).map(([name, spec]) => compileCapture(name, spec))
+    }
+  }
+
+  /**
+   * Creates the request for an endpoint of a request mix, layering its headers over the run's
+   * @param endpoint - Endpoint configuration
+   * @returns Loop request
+   */
+  private createEndpointRequest(endpoint: EndpointConfig): LoopRequest {
+    return {
+      ...this.resolve(
+        endpoint.url,
+        { ...this.config.headers, ...endpoint.headers },
+        endpoint.body ?? null
+      ),
+      method: endpoint.method ?? DEFAULT_METHOD,
+      delay: 0,
+      expect: null,
+      captures: []
+    }
+  }
+
+  /**
+   * Picks the request to send next: the current step in scenarios, an endpoint
+   * chosen by weight in request mixes, or the only request otherwise
+   * @param stepIndex - Current scenario step
+   * @returns Index into the loop's requests
+   */
+  private pickRequestIndex(stepIndex: number): number {
+    if (this.weights === null) {
+      return stepIndex
+    }
+
+    const point = Math.random() * (this.weights[this.weights.length - 1] ?? 0)
+    const index = this.weights.findIndex(weight => point < weight)
+    return index === -1 ? this.weights.length - 1 : index
+  }
+
+  /**
+   * Runs a single virtual connection, keeping one request in flight at a time.
+   * In scenario runs the connection is a virtual user working through the steps
+   * in order, for the configured number of iterations, with its own captured values.
+   * With a data feeder, each request (or each scenario iteration) takes the next row.
+   * With cookies enabled, the connection keeps its own cookie jar.
+   * @param index - Connection index within this worker
+   * @param endTime - Time at which the connection stops issuing requests
+   */
+  private async runConnection(index: number, endTime: number): Promise<void> {
+    const scenario = this.config.scenario
+    const vu = this.config.vuOffset + index + 1
+    const steps = scenario?.steps.length ?? 1
+    const variables: CaptureVariables = new Map()
+    const jar = this.config.cookies !== null ? new CookieJar(this.config.cookies) : null
+    let row: DataRow | null = null
+    let stepIndex = 0
+    let iterations = 0
+
     while (this.state.running && performance.now() < endTime) {
+      if (!this.isConnectionActive(index)) {
+        await sleep(Math.min(RAMP_POLL_INTERVAL_MS, Math.max(0, endTime - performance.now())))
+        continue
+      }
+
+      let intendedStart: number | null = null
+
       if (this.rateLimiter !== null) {
-        await this.rateLimiter.acquire()
+        intendedStart = await this.rateLimiter.acquire(endTime)
+        if (intendedStart >= endTime) {
+          break
+        }
       }
 
       if (!this.state.running) {
         break
       }
 
-      await this.executeRequest()
+      const requestIndex = this.pickRequestIndex(stepIndex)
+      const request = this.requests[requestIndex]
+      if (request === undefined) {
+        break
+      }
+
+      if (stepIndex === 0 && this.feeder !== null) {
+        row = this.feeder.next()
+        if (row === null) {
+          break
+        }
+      }
+
+      await this.executeRequest(
+        request,
+        request.template.render({ vu, seq: this.nextSequence(), variables, row }),
+        requestIndex,
+        intendedStart,
+        variables,
+        jar
+      )
+
+      if (request.delay > 0) {
+        await sleep(Math.min(request.delay, Math.max(0, endTime - performance.now())))
+      }
+
+      stepIndex++
+      if (stepIndex === steps) {
+        stepIndex = 0
+        if (scenario !== null && this.completeIteration(scenario, ++iterations)) {
+          break
+        }
+      }
     }
+  }
 
-    this.stopMetricsReporting()
-    await this.client.close()
+  /**
+   * Counts a completed scenario iteration
+   * @param scenario - Scenario being run
+   * @param iterations - Iterations this virtual user has completed
+   * @returns True if the virtual user has completed all its iterations
+   */
+  private completeIteration(scenario: ScenarioConfig, iterations: number): boolean {
+    this.state.iterations++
+    return scenario.iterations !== undefined && iterations >= scenario.iterations
+  }
 
-    return this.getSnapshot()
+  /**
+   * Takes the next {{seq}} value, interleaved across workers so it is unique within the run
+   * @returns Sequence number, starting at 1
+   */
+  private nextSequence(): number {
+    return this.state.sequence++ * this.config.workerCount + this.config.id + 1
   }
 
   /**
-   * Stops the request loop
+   * Checks whether a connection is active under a connection-count ramp
+   * @param index - Connection index within this worker
+   * @returns True if the connection should be issuing requests
    */
-  stop(): void {
-    this.state.running = false
+  private isConnectionActive(index: number): boolean {
+    if (this.ramp === null || this.rateLimiter !== null) {
+      return true
+    }
+    return this.ramp.getCurrentRate() > index
+  }
+
+  /**
+   * Launches requests on the arrival schedule without waiting for earlier responses.
+   * Arrivals that would exceed the in-flight cap are dropped and counted as missed.
+   * Arrivals are not tied to a virtual user, so with cookies enabled they share one jar.
+   * @param arrivals - Arrival scheduler
+   * @param endTime - Time at which no further arrivals are launched
+   */
+  private async runOpenModel(arrivals: ArrivalScheduler, endTime: number): Promise<void> {
+    const maxInFlight = this.config.arrival?.maxInFlight ?? this.config.connections
+    const pending = new Set<Promise<void>>()
+    const jar = this.config.cookies !== null ? new CookieJar(this.config.cookies) : null
+
+    while (this.state.running) {
+      const intendedStart = await arrivals.acquire(endTime)
+
+      if (!this.state.running || intendedStart >= endTime) {
+        break
+      }
+
+      if (this.state.inFlight >= maxInFlight) {
+        this.state.missed++
+        continue
+      }
+
+      const requestIndex = this.pickRequestIndex(0)
+      const target = this.requests[requestIndex]
+      const row = this.feeder?.next() ?? null
+      if (target === undefined || (this.feeder !== null && row === null)) {
+        break
+      }
+
+      this.state.inFlight++
+      // Arrivals are not tied to a virtual user, so {{vu}} renders as 0
+      const rendered = target.template.render({
+        vu: 0,
+        seq: this.nextSequence(),
+        variables: null,
+        row
+      })
+      const request = this.executeRequest(
+        target,
+        rendered,
+        requestIndex,
+        intendedStart,
+        null,
+        jar
+      ).finally(() => {
+        this.state.inFlight--
+        pending.delete(request)
+      })
+      pending.add(request)
+    }
+
+    await Promise.all(pending)
   }
 
   /**
    * Executes a single HTTP request
+   * @param request - Request to send
+   * @param rendered - Path, headers and body rendered for this request
+   * @param index - Scenario step or request mix endpoint the request belongs to
+   * @param intendedStart - Scheduled start time when rate-limited or open-model, used to
+   * correct latency for coordinated omission
+   * @param variables - Values captured by the virtual user, updated from the response
+   * @param jar - Cookie jar sent with the request and updated from the response
    */
-  private async executeRequest(): Promise<void> {
-    this.state.requests++
+  private async executeRequest(
+    request: LoopRequest,
+    rendered: RenderedRequest,
+    index: number,
+    intendedStart: number | null,
+    variables: CaptureVariables | null = null,
+    jar: CookieJar | null = null
+  ): Promise<void> {
+    const sendTime = performance.now()
+    const recorders = this.recordersFor(intendedStart ?? sendTime)
+
+    // Steps and endpoints are broken down over the same requests as the steady-state totals
+    const steady = recorders.includes(this.steadyMetrics)
+    const stepRecorder = steady ? (this.stepMetrics?.[index] ?? null) : null
+    const endpointRecorder = steady ? (this.endpointMetrics?.[index] ?? null) : null
+    if (stepRecorder !== null) {
+      recorders.push(stepRecorder)
+    }
+    if (endpointRecorder !== null) {
+      recorders.push(endpointRecorder)
+    }
+
+    const url = jar !== null ? new URL(rendered.path, request.origin) : null
+    const cookies = jar !== null && url !== null ? jar.header(url) : null
 
     try {
-      const response = await this.client.execute(
-        this.config.method,
-        this.path,
-        this.config.headers,
-        this.config.body
+      const response = await request.client.execute(
+        request.method,
+        rendered.path,
+        cookies !== null ? withCookies(rendered.headers, cookies) : rendered.headers,
+        rendered.body,
+        request.captures.length > 0 || (this.assertions?.requiresBody() ?? false)
       )
 
-      this.state.latencies.push(response.latencyUs)
-      this.state.bytes += response.bytes
+      if (jar !== null && url !== null) {
+        jar.store(url, response.headers['set-cookie'])
+      }
 
-      if (SUCCESS_STATUS_CODES.has(response.statusCode)) {
-        this.state.successful++
-      } else {
-        this.state.failed++
-        const count = this.state.errors.byStatusCode[response.statusCode] ?? 0
-        this.state.errors.byStatusCode[response.statusCode] = count + 1
+      const scheduleDelayUs =
+        intendedStart !== null ? Math.max(0, sendTime - intendedStart) * 1000 : 0
+      // An expected status set in the assertions replaces the success status policy
+      const expectedStatus = request.expect?.status
+      const statusMatches =
+        expectedStatus !== undefined
+          ? response.statusCode === expectedStatus
+          : (this.assertions?.hasStatusCheck() ?? false) ||
+            this.isSuccessStatus(response.statusCode)
+      const failedAssertions = this.assertions?.check(response) ?? []
+      const success = statusMatches && failedAssertions.length === 0
+
+      if (steady) {
+        this.timingMetrics.recordResponse(response)
       }
-    } catch (err: unknown) {
-      this.state.failed++
 
-      if (err instanceof Error) {
-        if (err.message.includes('timeout') || err.name === 'TimeoutError') {
-          this.state.errors.timeouts++
-        } else {
-          this.state.errors.connectionErrors++
+      for (const recorder of recorders) {
+        recorder.recordResponse(
+          success,
+          response.statusCode,
+          response.bytes,
+          response.latencyUs + scheduleDelayUs,
+          response.latencyUs,
+          failedAssertions
+        )
+      }
+
+      if (stepRecorder !== null && request.expect !== null) {
+        if (expectedStatus !== undefined && !statusMatches) {
+          stepRecorder.recordExpectationFailure('status')
+        }
+        const maxLatency = request.expect.maxLatency
+        if (maxLatency !== undefined && response.latencyUs / 1000 > maxLatency) {
+          stepRecorder.recordExpectationFailure('maxLatency')
+        }
+      }
+
+      if (variables !== null && request.captures.length > 0) {
+        const source = { headers: response.headers, body: response.body?.toString() ?? '' }
+        for (const capture of request.captures) {
+          const value = capture.read(source)
+          if (value !== null) {
+            variables.set(capture.name, value)
+          } else {
+            stepRecorder?.recordExpectationFailure('capture')
+          }
         }
-      } else {
-        this.state.errors.connectionErrors++
       }
+    } catch (err: unknown) {
+      // A server that does not speak the requested protocol fails the run rather than
+      // every request
+      if (err instanceof ProtocolDowngradeError) {
+        this.state.error ??= err
+        this.stop()
+        return
+      }
+
+      for (const recorder of recorders) {
+        recorder.recordError(err)
+      }
+    }
+  }
+
+  /**
+   * Records the setup timings of a new connection. Connections are reused across
+   * phases, so only those opened during warmup are left out.
+   * @param timings - DNS, connect and TLS time
+   */
+  private recordConnection(timings: ConnectionTimings): void {
+    if (this.isMeasuring()) {
+      this.timingMetrics.recordConnection(timings)
+      this.state.connectionStats.opened++
+    }
+  }
+
+  /**
+   * Counts a reused connection or one closed by the server, except during warmup
+   * @param event - Count to increment
+   */
+  private recordConnectionEvent(event: 'reused' | 'closedByServer'): void {
+    if (this.isMeasuring()) {
+      this.state.connectionStats[event]++
+    }
+  }
+
+  /**
+   * Checks whether the warmup is over
+   * @returns True once connections count towards the results
+   */
+  private isMeasuring(): boolean {
+    return performance.now() - this.state.startTime >= this.config.warmup * 1000
+  }
+
+  /**
+   * Picks the recorders for a request, tagging requests made during warmup or
+   * while ramping so they stay out of the steady-state stats, and adding the
+   * current stage's recorder in staged runs
+   * @param startTime - Intended or actual start of the request
+   * @returns Metrics recorders
+   */
+  private recordersFor(startTime: number): MetricsRecorder[] {
+    const elapsedMs = startTime - this.state.startTime
+
+    if (this.warmupMetrics !== null && elapsedMs < this.config.warmup * 1000) {
+      return [this.warmupMetrics]
+    }
+    if (this.ramp === null) {
+      return [this.steadyMetrics]
+    }
+    if (this.rampMetrics !== null && this.ramp.isRampingAt(elapsedMs)) {
+      return [this.rampMetrics]
     }
+
+    const stage = this.stageMetrics?.[this.ramp.getSegmentIndexAt(elapsedMs)]
+    return stage !== undefined ? [this.steadyMetrics, stage] : [this.steadyMetrics]
   }
 
   /**
@@ -174,7 +723,7 @@ export class RequestLoop {
 
     this.metricsInterval = setInterval(() => {
       if (this.metricsCallback !== null) {
-        this.metricsCallback(this.getSnapshot())
+        this.metricsCallback(this.takeSnapshot())
       }
     }, METRICS_INTERVAL_MS)
   }
@@ -190,18 +739,44 @@ export class RequestLoop {
   }
 
   /**
-   * Gets current metrics snapshot
-   * @returns Metrics snapshot
+   * Gets the protocol negotiated by the first client that has connected
+   * @returns Protocol name, or null before any connection is established
    */
-  private getSnapshot(): MetricsSnapshot {
-    return {
+  private getProtocol(): string | null {
+    for (const client of this.clients.values()) {
+      const protocol = client.getProtocol()
+      if (protocol !== null) {
+        return protocol
+      }
+    }
+    return null
+  }
+
+  /**
+   * Takes a snapshot of the metrics recorded since the previous snapshot
+   * and resets the counters, so every request is reported exactly once
+   * @returns Metrics delta snapshot
+   */
+  private takeSnapshot(): MetricsSnapshot {
+    const snapshot: MetricsSnapshot = {
       workerId: this.config.id,
-      requests: this.state.requests,
-      successful: this.state.successful,
-      failed: this.state.failed,
-      bytes: this.state.bytes,
-      latencies: [...this.state.latencies],
-      errors: { ...this.state.errors, byStatusCode: { ...this.state.errors.byStatusCode } }
+      ...this.steadyMetrics.takeDelta(),
+      missed: this.state.missed,
+      iterations: this.state.iterations,
+      warmup: this.warmupMetrics?.takeDelta() ?? null,
+      ramp: this.rampMetrics?.takeDelta() ?? null,
+      stages: this.stageMetrics?.map(recorder => recorder.takeDelta()) ?? null,
+      steps: this.stepMetrics?.map(recorder => recorder.takeDelta()) ?? null,
+      endpoints: this.endpointMetrics?.map(recorder => recorder.takeDelta()) ?? null,
+      timings: this.timingMetrics.takeDelta(),
+      connectionStats: this.state.connectionStats,
+      protocol: this.getProtocol()
     }
+
+    this.state.missed = 0
+    this.state.iterations = 0
+    this.state.connectionStats = createEmptyConnectionStats()
+
+    return snapshot
   }
 }
@@ -1,4 +1,10 @@
-import type { WorkerConfig, MetricsSnapshot, ErrorBreakdown } from '../../types.js'
+import type {
+  WorkerConfig,
+  MetricsSnapshot,
+  ErrorBreakdown,
+  ExpectationFailures,
+  ConnectionStats
+} from '../../types.js'
 
 /**
  * Worker request messages (main thread -> worker)
@@ -22,7 +28,32 @@ export function createEmptyErrorBreakdown(): ErrorBreakdown {
   return {
     timeouts: 0,
     connectionErrors: 0,
-    byStatusCode: {}
+    byStatusCode: {},
+    assertions: {}
+  }
+}
+
+/**
+ * Creates empty expectation failure counts
+ * @returns Expectation failures with all counts at zero
+ */
+export function createEmptyExpectationFailures(): ExpectationFailures {
+  return {
+    status: 0,
+    maxLatency: 0,
+    capture: 0
+  }
+}
+
+/**
+ * Creates connection stats with all counts at zero
+ * @returns Empty connection stats
+ */
+export function createEmptyConnectionStats(): ConnectionStats {
+  return {
+    opened: 0,
+    reused: 0,
+    closedByServer: 0
   }
 }
 
@@ -37,8 +68,19 @@ export function createEmptyMetricsSnapshot(workerId: number): MetricsSnapshot {
     requests: 0,
     successful: 0,
     failed: 0,
+    missed: 0,
+    iterations: 0,
     bytes: 0,
-    latencies: [],
-    errors: createEmptyErrorBreakdown()
+    histogram: null,
+    uncorrectedHistogram: null,
+    errors: createEmptyErrorBreakdown(),
+    warmup: null,
+    ramp: null,
+    stages: null,
+    steps: null,
+    endpoints: null,
+    timings: null,
+    connectionStats: createEmptyConnectionStats(),
+    protocol: null
   }
 }
@@ -1,7 +1,7 @@
 import { parentPort, workerData } from 'node:worker_threads'
 
 import type { WorkerRequest, WorkerResponse } from './messages.js'
-import type { WorkerConfig } from '../../types.js'
+import type { WorkerConfig, MetricsSnapshot } from '../../types.js'
 import { RequestLoop } from './loop.js'
 
 let currentLoop: RequestLoop | null = null
@@ -14,20 +14,58 @@ function sendMessage(message: WorkerResponse): void {
   parentPort?.postMessage(message)
 }
 
+/**
+ * Sends a metrics snapshot, transferring the histogram buckets instead of copying them
+ * @param type - Message type
+ * @param snapshot - Metrics snapshot
+ */
+function sendSnapshot(type: 'metrics' | 'done', snapshot: MetricsSnapshot): void {
+  const message: WorkerResponse = { type, payload: snapshot }
+  const transferList: ArrayBuffer[] = []
+
+  const deltas = [
+    snapshot,
+    snapshot.warmup,
+    snapshot.ramp,
+    ...(snapshot.stages ?? []),
+    ...(snapshot.steps ?? []),
+    ...(snapshot.endpoints ?? [])
+  ]
+
+  for (const delta of deltas) {
+    if (delta === null) {
+      continue
+    }
+    if (delta.histogram !== null) {
+      transferList.push(delta.histogram.buckets.buffer as ArrayBuffer)
+    }
+    if (delta.uncorrectedHistogram !== null) {
+      transferList.push(delta.uncorrectedHistogram.buckets.buffer as ArrayBuffer)
+    }
+  }
+
+  for (const histogram of Object.values(snapshot.timings ?? {})) {
+    if (histogram !== null) {
+      transferList.push(histogram.buckets.buffer as ArrayBuffer)
+    }
+  }
+
+  parentPort?.postMessage(message, transferList)
+}
+
 /**
  * Handles start command
  * @param config - Worker configuration
  */
 async function handleStart(config: WorkerConfig): Promise<void> {
-  currentLoop = new RequestLoop(config)
-
-  currentLoop.onMetrics(snapshot => {
-    sendMessage({ type: 'metrics', payload: snapshot })
-  })
-
   try {
+    currentLoop = new RequestLoop(config)
+    currentLoop.onMetrics(snapshot => {
+      sendSnapshot('metrics', snapshot)
+    })
+
     const finalSnapshot = await currentLoop.run()
-    sendMessage({ type: 'done', payload: finalSnapshot })
+    sendSnapshot('done', finalSnapshot)
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : 'Unknown worker error'
     sendMessage({ type: 'error', workerId: config.id, message })
@@ -3,16 +3,47 @@ export type {
   BenchOptions,
   BenchResult,
   LatencyStats,
+  CoordinatedOmissionStats,
+  TimingPhase,
+  TimingStats,
+  QueueStats,
+  ConnectionStats,
+  PhaseStats,
   ErrorBreakdown,
   ThresholdConfig,
+  HistogramConfig,
+  LoadStage,
+  StageTarget,
+  StageStats,
+  DataConfig,
+  DataOrder,
+  EndpointConfig,
+  EndpointStats,
+  AssertionConfig,
+  SloPercentile,
+  LatencySlo,
+  CapacityConfig,
+  CapacityTrial,
+  CapacityResult,
   HttpMethod,
+  ArrivalConfig,
+  ArrivalDistribution,
+  Http2Config,
+  TlsConfig,
+  ProxyConfig,
+  CookieJarConfig,
   OutputFormat,
   ScenarioConfig,
   ScenarioStep,
+  CaptureSpec,
+  ScenarioStats,
+  StepStats,
+  ExpectationFailures,
   Reporter
 } from './types.js'
 
-export { runBenchmark } from './core/orchestrator/orchestrator.js'
+export { runBenchmark, runScenario } from './core/orchestrator/orchestrator.js'
+export { findCapacity } from './core/capacity/search.js'
 export { createConsoleReporter } from './reporters/console.js'
 export { createJsonReporter } from './reporters/json.js'
 export { createHtmlReporter } from './reporters/html.js'
@@ -1,4 +1,9 @@
-import type { BenchResult, Reporter } from '../types.js'
+import type { BenchResult, LatencyStats, Reporter, TimingPhase } from '../types.js'
+import {
+  CERT_EXPIRY_WARNING_DAYS,
+  QUEUE_WAIT_WARNING_PERCENT,
+  TIMING_PHASE_LABELS
+} from '../constants.js'
 
 /**
  * ANSI color codes for terminal output
@@ -184,12 +189,23 @@ export class ConsoleReporter implements Reporter {
     lines.push(
       `  ${COLORS.dim}Target:${COLORS.reset}    ${COLORS.cyan}${result.url}${COLORS.reset}`
     )
+    if (result.socketPath) {
+      lines.push(`  ${COLORS.dim}Socket:${COLORS.reset}    ${result.socketPath}`)
+    }
+    if (result.meta.proxy) {
+      lines.push(`  ${COLORS.dim}Proxy:${COLORS.reset}     ${result.meta.proxy}`)
+    }
     lines.push(
       `  ${COLORS.dim}Conns:${COLORS.reset}     ${COLORS.yellow}${result.connections}${COLORS.reset} connections`
     )
     lines.push(
       `  ${COLORS.dim}Duration:${COLORS.reset}  ${COLORS.yellow}${result.duration}s${COLORS.reset}`
     )
+    if (result.protocol) {
+      lines.push(
+        `  ${COLORS.dim}Protocol:${COLORS.reset}  ${COLORS.yellow}${result.protocol}${COLORS.reset}`
+      )
+    }
     if (result.rate) {
       lines.push(
         `  ${COLORS.dim}Rate:${COLORS.reset}      ${COLORS.yellow}${formatNumber(result.rate)}${COLORS.reset} req/s`
@@ -246,6 +262,21 @@ export class ConsoleReporter implements Reporter {
           `  ${COLORS.dim}Handshake:${COLORS.reset}    ~${result.devtools.handshakeTime.toFixed(2)}ms (approx)`
         )
       }
+      const tls = result.devtools.tls
+      if (tls) {
+        const alpn = tls.alpnProtocol ? `, ALPN ${tls.alpnProtocol}` : ''
+        lines.push(`  ${COLORS.dim}TLS:${COLORS.reset}          ${tls.version} ${tls.cipher}${alpn}`)
+        lines.push(
+          `  ${COLORS.dim}Resumption:${COLORS.reset}   ${(tls.resumptionRate * 100).toFixed(0)}% of follow-up handshakes`
+        )
+        if (tls.certificateExpiry !== null && tls.certificateDaysLeft !== null) {
+          const color =
+            tls.certificateDaysLeft < CERT_EXPIRY_WARNING_DAYS ? COLORS.yellow : COLORS.reset
+          lines.push(
+            `  ${COLORS.dim}Certificate:${COLORS.reset}  expires ${tls.certificateExpiry.slice(0, 10)} ${color}(${tls.certificateDaysLeft} days left)${COLORS.reset}`
+          )
+        }
+      }
       lines.push('')
     }
 
@@ -261,9 +292,70 @@ export class ConsoleReporter implements Reporter {
         formatMsShort(result.latency.p999)
       ]
     ]
+    if (result.coordinatedOmission) {
+      const uncorrected = result.coordinatedOmission.uncorrected
+      latencyRows.push([
+        'Uncorr.',
+        formatMsShort(uncorrected.mean),
+        formatMsShort(uncorrected.stddev),
+        formatMsShort(uncorrected.max),
+        formatMsShort(uncorrected.p99),
+        formatMsShort(uncorrected.p999)
+      ])
+    }
     lines.push(createTable(latencyHeaders, latencyRows, latencyWidths))
+    if (result.coordinatedOmission) {
+      lines.push(
+        `${COLORS.dim}Latency is measured from each request's scheduled start (coordinated omission corrected)${COLORS.reset}`
+      )
+    }
     lines.push('')
 
+    if (result.timings) {
+      const phases = Object.entries(result.timings).filter(
+        (entry): entry is [string, LatencyStats] => entry[1] !== null
+      )
+      lines.push(`${COLORS.bold}Timings${COLORS.reset}`)
+      const timingWidths = [10, 10, 10, 10, 10]
+      const timingHeaders = ['Phase', 'P50', 'P90', 'P99', 'Max']
+      const timingRows = phases.map(([phase, stats]) => [
+        TIMING_PHASE_LABELS[phase as TimingPhase],
+        formatMsShort(stats.p50),
+        formatMsShort(stats.p90),
+        formatMsShort(stats.p99),
+        formatMsShort(stats.max)
+      ])
+      lines.push(createTable(timingHeaders, timingRows, timingWidths))
+      lines.push(
+        `${COLORS.dim}DNS, connect and TLS are timed per new connection; TTFB and download per request${COLORS.reset}`
+      )
+      lines.push('')
+    }
+
+    if (result.queue) {
+      lines.push(
+        `  ${COLORS.dim}Queue wait:${COLORS.reset} P50 ${formatMsShort(result.queue.wait.p50)}, P99 ${formatMsShort(result.queue.wait.p99)} ${COLORS.dim}(${result.queue.waitPercent}% of latency)${COLORS.reset}`
+      )
+      lines.push(
+        `  ${COLORS.dim}Wire time:${COLORS.reset}  P50 ${formatMsShort(result.queue.wire.p50)}, P99 ${formatMsShort(result.queue.wire.p99)}`
+      )
+      if (result.queue.waitPercent >= QUEUE_WAIT_WARNING_PERCENT) {
+        lines.push(
+          `  ${COLORS.yellow}Warning:${COLORS.reset} requests spent ${result.queue.waitPercent}% of their latency queued in SwiftBench before being sent; the load generator may be the bottleneck (try more connections)`
+        )
+      }
+      lines.push('')
+    }
+
+    if (result.connectionStats) {
+      const { opened, reused, closedByServer } = result.connectionStats
+      const closedColor = closedByServer > 0 ? COLORS.yellow : ''
+      lines.push(
+        `  ${COLORS.dim}Connections:${COLORS.reset} ${formatNumber(opened)} opened, ${formatNumber(reused)} reused, ${closedColor}${formatNumber(closedByServer)} closed by server${COLORS.reset}`
+      )
+      lines.push('')
+    }
+
     const summaryWidths = [15, 15, 15, 15]
     const summaryHeaders = ['Total Reqs', 'RPS', 'Transfer', 'Error Rate']
     const summaryRows = [
@@ -277,9 +369,102 @@ export class ConsoleReporter implements Reporter {
       ]
     ]
     lines.push(createTable(summaryHeaders, summaryRows, summaryWidths))
+    if (result.warmup) {
+      lines.push(
+        `  ${COLORS.dim}Warmup:${COLORS.reset} ${formatNumber(result.warmup.requests.total)} requests over ${result.warmup.duration}s discarded ${COLORS.dim}(P99 ${formatMsShort(result.warmup.latency.p99)})${COLORS.reset}`
+      )
+    }
+    if (result.ramp) {
+      lines.push(
+        `  ${COLORS.dim}Ramp:${COLORS.reset} ${formatNumber(result.ramp.requests.total)} requests over ${result.ramp.duration}s excluded from steady-state stats ${COLORS.dim}(P99 ${formatMsShort(result.ramp.latency.p99)})${COLORS.reset}`
+      )
+    }
+    if (result.successStatus !== undefined) {
+      lines.push(
+        `  ${COLORS.dim}Success status:${COLORS.reset} ${result.successStatus} ${COLORS.dim}(other responses count as failed)${COLORS.reset}`
+      )
+    }
+    const missed = result.requests.missed ?? 0
+    if (missed > 0) {
+      lines.push(
+        `  ${COLORS.yellow}Missed:${COLORS.reset} ${COLORS.red}${formatNumber(missed)}${COLORS.reset} arrivals dropped at the in-flight cap`
+      )
+    }
     lines.push('')
 
-    if (result.errors.timeouts > 0 || result.errors.connectionErrors > 0) {
+    if (result.stages && result.stages.length > 0) {
+      lines.push(`${COLORS.bold}Stages${COLORS.reset}`)
+      const stageWidths = [7, 9, 10, 10, 10, 10, 10, 9]
+      const stageHeaders = ['Stage', 'Target', 'Duration', 'Reqs', 'RPS', 'P50', 'P99', 'Errors']
+      const stageRows = result.stages.map((stage, index) => [
+        String(index + 1),
+        formatNumber(stage.target),
+        `${stage.duration}s`,
+        formatNumber(stage.requests.total),
+        formatNumber(Math.round(stage.throughput.rps)),
+        formatMsShort(stage.latency.p50),
+        formatMsShort(stage.latency.p99),
+        stage.requests.failed > 0
+          ? `${COLORS.red}${formatNumber(stage.requests.failed)}${COLORS.reset}`
+          : '0'
+      ])
+      lines.push(createTable(stageHeaders, stageRows, stageWidths))
+      lines.push('')
+    }
+
+    if (result.scenario) {
+      lines.push(
+        `${COLORS.bold}Scenario${COLORS.reset} ${result.scenario.name} ${COLORS.dim}(${formatNumber(result.scenario.iterations)} iterations)${COLORS.reset}`
+      )
+      const stepWidths = [16, 8, 10, 10, 10, 10, 10]
+      const stepHeaders = ['Step', 'Method', 'Reqs', 'Failed', 'P50', 'P99', 'Expect']
+      const stepRows = result.scenario.steps.map(step => {
+        const unmet =
+          step.expectations.status + step.expectations.maxLatency + step.expectations.capture
+        return [
+          step.name.length > 14 ? `${step.name.substring(0, 13)}…` : step.name,
+          step.method,
+          formatNumber(step.requests.total),
+          step.requests.failed > 0
+            ? `${COLORS.red}${formatNumber(step.requests.failed)}${COLORS.reset}`
+            : '0',
+          formatMsShort(step.latency.p50),
+          formatMsShort(step.latency.p99),
+          unmet > 0 ? `${COLORS.red}${formatNumber(unmet)} unmet${COLORS.reset}` : `${COLORS.green}ok${COLORS.reset}`
+        ]
+      })
+      lines.push(createTable(stepHeaders, stepRows, stepWidths))
+      lines.push('')
+    }
+
+    if (result.endpoints && result.endpoints.length > 0) {
+      lines.push(`${COLORS.bold}Endpoints${COLORS.reset}`)
+      const endpointWidths = [22, 8, 10, 8, 10, 10, 10]
+      const endpointHeaders = ['Endpoint', 'Weight', 'Reqs', 'Share', 'Failed', 'P50', 'P99']
+      const endpointRows = result.endpoints.map(endpoint => [
+        endpoint.name.length > 20 ? `${endpoint.name.substring(0, 19)}…` : endpoint.name,
+        formatNumber(endpoint.weight),
+        formatNumber(endpoint.requests.total),
+        result.requests.total > 0
+          ? `${((endpoint.requests.total / result.requests.total) * 100).toFixed(1)}%`
+          : '-',
+        endpoint.requests.failed > 0
+          ? `${COLORS.red}${formatNumber(endpoint.requests.failed)}${COLORS.reset}`
+          : '0',
+        formatMsShort(endpoint.latency.p50),
+        formatMsShort(endpoint.latency.p99)
+      ])
+      lines.push(createTable(endpointHeaders, endpointRows, endpointWidths))
+      lines.push('')
+    }
+
+    const failedAssertions = Object.entries(result.errors.assertions ?? {})
+    if (
+      result.errors.timeouts > 0 ||
+      result.errors.connectionErrors > 0 ||
+      Object.keys(result.errors.byStatusCode).length > 0 ||
+      failedAssertions.length > 0
+    ) {
       lines.push(`${COLORS.yellow}Errors:${COLORS.reset}`)
       if (result.errors.timeouts > 0) {
         lines.push(
@@ -294,6 +479,9 @@ export class ConsoleReporter implements Reporter {
       for (const [code, count] of Object.entries(result.errors.byStatusCode)) {
         lines.push(`  HTTP ${code}: ${COLORS.red}${formatNumber(count)}${COLORS.reset}`)
       }
+      for (const [name, count] of failedAssertions) {
+        lines.push(`  Assertion ${name}: ${COLORS.red}${formatNumber(count)}${COLORS.reset}`)
+      }
       lines.push('')
     }
 
@@ -30,9 +30,14 @@ export class CsvReporter implements Reporter {
       'duration_sec',
       'connections',
       'rate_limit',
+      'success_status',
+      'protocol',
+      'socket_path',
+      'proxy',
       'total_requests',
       'successful_requests',
       'failed_requests',
+      'missed_requests',
       'rps',
       'bytes_per_sec',
       'total_bytes',
@@ -46,8 +51,30 @@ export class CsvReporter implements Reporter {
       'latency_p95_ms',
       'latency_p99_ms',
       'latency_p999_ms',
+      'latency_uncorrected_p50_ms',
+      'latency_uncorrected_p99_ms',
+      'latency_uncorrected_p999_ms',
+      'timing_dns_p50_ms',
+      'timing_dns_p99_ms',
+      'timing_connect_p50_ms',
+      'timing_connect_p99_ms',
+      'timing_tls_p50_ms',
+      'timing_tls_p99_ms',
+      'timing_ttfb_p50_ms',
+      'timing_ttfb_p99_ms',
+      'timing_download_p50_ms',
+      'timing_download_p99_ms',
+      'connections_opened',
+      'connections_reused',
+      'connections_closed_by_server',
+      'queue_wait_p50_ms',
+      'queue_wait_p99_ms',
+      'queue_wait_percent',
+      'wire_p50_ms',
+      'wire_p99_ms',
       'errors_timeouts',
       'errors_connection',
+      'errors_assertions',
       'version',
       'node_version',
       'platform'
@@ -60,9 +87,14 @@ export class CsvReporter implements Reporter {
       result.duration,
       result.connections,
       result.rate ?? '',
+      result.successStatus ?? '',
+      result.protocol ?? '',
+      result.socketPath ?? '',
+      result.meta.proxy ?? '',
       result.requests.total,
       result.requests.successful,
       result.requests.failed,
+      result.requests.missed ?? 0,
       result.throughput.rps,
       result.throughput.bytesPerSecond,
       result.throughput.totalBytes,
@@ -76,8 +108,30 @@ export class CsvReporter implements Reporter {
       result.latency.p95,
       result.latency.p99,
       result.latency.p999,
+      result.coordinatedOmission?.uncorrected.p50 ?? '',
+      result.coordinatedOmission?.uncorrected.p99 ?? '',
+      result.coordinatedOmission?.uncorrected.p999 ?? '',
+      result.timings?.dns?.p50 ?? '',
+      result.timings?.dns?.p99 ?? '',
+      result.timings?.connect?.p50 ?? '',
+      result.timings?.connect?.p99 ?? '',
+      result.timings?.tls?.p50 ?? '',
+      result.timings?.tls?.p99 ?? '',
+      result.timings?.ttfb?.p50 ?? '',
+      result.timings?.ttfb?.p99 ?? '',
+      result.timings?.download?.p50 ?? '',
+      result.timings?.download?.p99 ?? '',
+      result.connectionStats?.opened ?? '',
+      result.connectionStats?.reused ?? '',
+      result.connectionStats?.closedByServer ?? '',
+      result.queue?.wait.p50 ?? '',
+      result.queue?.wait.p99 ?? '',
+      result.queue?.waitPercent ?? '',
+      result.queue?.wire.p50 ?? '',
+      result.queue?.wire.p99 ?? '',
       result.errors.timeouts,
       result.errors.connectionErrors,
+      Object.values(result.errors.assertions ?? {}).reduce((sum, count) => sum + count, 0),
       result.meta.version,
       result.meta.nodeVersion,
       result.meta.platform
@@ -86,7 +140,51 @@ export class CsvReporter implements Reporter {
     const headerLine = headers.join(',')
     const valueLine = values.map(escapeCSV).join(',')
 
-    return Promise.resolve(`${headerLine}\n${valueLine}`)
+    if (result.endpoints === undefined || result.endpoints.length === 0) {
+      return Promise.resolve(`${headerLine}\n${valueLine}`)
+    }
+
+    // Request mixes add a second table with one row per endpoint
+    const endpointHeaders = [
+      'endpoint',
+      'url',
+      'method',
+      'weight',
+      'total_requests',
+      'successful_requests',
+      'failed_requests',
+      'latency_mean_ms',
+      'latency_p50_ms',
+      'latency_p90_ms',
+      'latency_p99_ms',
+      'latency_max_ms',
+      'errors_timeouts',
+      'errors_connection'
+    ]
+    const endpointLines = result.endpoints.map(endpoint =>
+      [
+        endpoint.name,
+        endpoint.url,
+        endpoint.method,
+        endpoint.weight,
+        endpoint.requests.total,
+        endpoint.requests.successful,
+        endpoint.requests.failed,
+        endpoint.latency.mean,
+        endpoint.latency.p50,
+        endpoint.latency.p90,
+        endpoint.latency.p99,
+        endpoint.latency.max,
+        endpoint.errors.timeouts,
+        endpoint.errors.connectionErrors
+      ]
+        .map(escapeCSV)
+        .join(',')
+    )
+
+    return Promise.resolve(
+      `${headerLine}\n${valueLine}\n\n${endpointHeaders.join(',')}\n${endpointLines.join('\n')}`
+    )
   }
 }
 
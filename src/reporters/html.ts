@@ -1,4 +1,5 @@
-import type { BenchResult, Reporter } from '../types.js'
+import type { BenchResult, LatencyStats, Reporter, TimingPhase } from '../types.js'
+import { QUEUE_WAIT_WARNING_PERCENT, TIMING_PHASE_LABELS } from '../constants.js'
 
 /**
  * Generates HTML report with charts and styling
@@ -416,6 +417,28 @@ function generateHtml(result: BenchResult): string {
           <span class="detail-label">Std Deviation</span>
           <span class="detail-value">${result.latency.stddev.toFixed(2)} ms</span>
         </div>
+        ${
+          result.coordinatedOmission
+            ? `
+        <div class="detail-item">
+          <span class="detail-label">Uncorrected P99</span>
+          <span class="detail-value">${result.coordinatedOmission.uncorrected.p99.toFixed(2)} ms</span>
+        </div>`
+            : ''
+        }
+        ${
+          result.queue
+            ? `
+        <div class="detail-item">
+          <span class="detail-label">Queue Wait P99</span>
+          <span class="detail-value"${result.queue.waitPercent >= QUEUE_WAIT_WARNING_PERCENT ? ' style="color: var(--warning);"' : ''}>${result.queue.wait.p99.toFixed(2)} ms (${result.queue.waitPercent}%)</span>
+        </div>
+        <div class="detail-item">
+          <span class="detail-label">Wire Time P99</span>
+          <span class="detail-value">${result.queue.wire.p99.toFixed(2)} ms</span>
+        </div>`
+            : ''
+        }
       </div>
 
       <div class="card">
@@ -456,13 +479,136 @@ function generateHtml(result: BenchResult): string {
           <span class="detail-label">Rate Limit</span>
           <span class="detail-value">${result.rate !== null ? result.rate + ' req/s' : 'Unlimited'}</span>
         </div>
+        ${
+          result.successStatus !== undefined
+            ? `
+        <div class="detail-item">
+          <span class="detail-label">Success Status</span>
+          <span class="detail-value">${result.successStatus}</span>
+        </div>`
+            : ''
+        }
+        ${
+          result.protocol !== undefined
+            ? `
+        <div class="detail-item">
+          <span class="detail-label">Protocol</span>
+          <span class="detail-value">${result.protocol}</span>
+        </div>`
+            : ''
+        }
+        ${
+          result.socketPath !== undefined
+            ? `
+        <div class="detail-item">
+          <span class="detail-label">Unix Socket</span>
+          <span class="detail-value">${result.socketPath}</span>
+        </div>`
+            : ''
+        }
+        ${
+          result.meta.proxy !== undefined
+            ? `
+        <div class="detail-item">
+          <span class="detail-label">Proxy</span>
+          <span class="detail-value">${result.meta.proxy}</span>
+        </div>`
+            : ''
+        }
+        ${
+          result.connectionStats
+            ? `
+        <div class="detail-item">
+          <span class="detail-label">Connections Opened / Reused</span>
+          <span class="detail-value">${result.connectionStats.opened.toLocaleString()} / ${result.connectionStats.reused.toLocaleString()}</span>
+        </div>
+        <div class="detail-item">
+          <span class="detail-label">Closed by Server</span>
+          <span class="detail-value"${result.connectionStats.closedByServer > 0 ? ' style="color: var(--warning);"' : ''}>${result.connectionStats.closedByServer.toLocaleString()}</span>
+        </div>`
+            : ''
+        }
+        ${
+          (result.requests.missed ?? 0) > 0
+            ? `
+        <div class="detail-item">
+          <span class="detail-label">Missed Arrivals</span>
+          <span class="detail-value" style="color: var(--error);">${(result.requests.missed ?? 0).toLocaleString()}</span>
+        </div>`
+            : ''
+        }
       </div>
     </div>
 
+    ${
+      result.stages && result.stages.length > 0
+        ? `
+    <div class="card" style="margin-bottom: 2rem;">
+      <div class="card-header">
+        <h2 class="card-title">Load Stages</h2>
+        <span class="card-badge">${result.stages.length} stages</span>
+      </div>
+      ${result.stages
+        .map(
+          (stage, index) => `
+      <div class="detail-item">
+        <span class="detail-label">Stage ${index + 1} · ${stage.duration}s → ${stage.target.toLocaleString()}</span>
+        <span class="detail-value">${stage.requests.total.toLocaleString()} reqs · ${stage.throughput.rps.toFixed(0)} req/s · P99 ${stage.latency.p99.toFixed(2)}ms</span>
+      </div>`
+        )
+        .join('')}
+    </div>`
+        : ''
+    }
+
+    ${
+      result.timings
+        ? `
+    <div class="card" style="margin-bottom: 2rem;">
+      <div class="card-header">
+        <h2 class="card-title">Latency Phases</h2>
+        <span class="card-badge">DNS · Connect · TLS per connection</span>
+      </div>
+      ${Object.entries(result.timings)
+        .filter((entry): entry is [string, LatencyStats] => entry[1] !== null)
+        .map(
+          ([phase, stats]) => `
+      <div class="detail-item">
+        <span class="detail-label">${TIMING_PHASE_LABELS[phase as TimingPhase]}</span>
+        <span class="detail-value">P50 ${stats.p50.toFixed(2)}ms · P90 ${stats.p90.toFixed(2)}ms · P99 ${stats.p99.toFixed(2)}ms · Max ${stats.max.toFixed(2)}ms</span>
+      </div>`
+        )
+        .join('')}
+    </div>`
+        : ''
+    }
+
+    ${
+      result.endpoints && result.endpoints.length > 0
+        ? `
+    <div class="card" style="margin-bottom: 2rem;">
+      <div class="card-header">
+        <h2 class="card-title">Endpoints</h2>
+        <span class="card-badge">${result.endpoints.length} endpoints</span>
+      </div>
+      ${result.endpoints
+        .map(
+          endpoint => `
+      <div class="detail-item">
+        <span class="detail-label">${endpoint.name} · weight ${endpoint.weight}</span>
+        <span class="detail-value">${endpoint.requests.total.toLocaleString()} reqs · ${endpoint.requests.failed.toLocaleString()} failed · P50 ${endpoint.latency.p50.toFixed(2)}ms · P99 ${endpoint.latency.p99.toFixed(2)}ms</span>
+      </div>`
+        )
+        .join('')}
+    </div>`
+        : ''
+    }
+
     ${
       result.errors.timeouts > 0 ||
       result.errors.connectionErrors > 0 ||
-      Object.keys(result.errors.byStatusCode).length > 0
+      Object.keys(result.errors.byStatusCode).length > 0 ||
+      Object.keys(result.errors.assertions ?? {}).length > 0
         ? `
     <div class="card" style="margin-bottom: 2rem;">
       <div class="card-header">
@@ -497,6 +643,15 @@ function generateHtml(result: BenchResult): string {
         </div>`
           )
           .join('')}
+        ${Object.entries(result.errors.assertions ?? {})
+          .map(
+            ([name, count]) => `
+        <div class="detail-item">
+          <span class="detail-label">Assertion ${name}</span>
+          <span class="detail-value" style="color: var(--error);">${count.toLocaleString()}</span>
+        </div>`
+          )
+          .join('')}
       </div>
     </div>
     `
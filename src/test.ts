@@ -0,0 +1,34 @@
+import { readdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { run } from 'node:test'
+import { spec } from 'node:test/reporters'
+
+/**
+ * Finds the test files below a directory
+ * @param dir - Directory to search
+ * @returns Paths of the `*.test.ts` files, sorted
+ */
+function findTestFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true })
+    .flatMap(entry => {
+      const path = join(dir, entry.name)
+      if (entry.isDirectory()) {
+        return findTestFiles(path)
+      }
+      return entry.name.endsWith('.test.ts') ? [path] : []
+    })
+    .sort()
+}
+
+const files = findTestFiles(join(process.cwd(), 'src'))
+if (files.length === 0) {
+  console.error('No test files found under src/')
+  process.exit(1)
+}
+
+run({ files })
+  .on('test:fail', () => {
+    process.exitCode = 1
+  })
+  .pipe(new spec())
+  .pipe(process.stdout)
@@ -13,6 +13,136 @@ export type OutputFormat = 'console' | 'json' | 'html' | 'csv'
  */
 export type HttpVersion = '1.1' | '2'
 
+/**
+ * Inter-arrival time distribution for open-model runs
+ */
+export type ArrivalDistribution = 'constant' | 'poisson'
+
+/**
+ * Open-model load: requests arrive on a schedule at `rate` regardless of whether
+ * earlier responses have returned, up to `maxInFlight` concurrent requests
+ */
+export type ArrivalConfig = {
+  distribution: ArrivalDistribution
+  maxInFlight?: number
+}
+
+/**
+ * HTTP/2 multiplexing: `sessions` connections in total, each carrying up to
+ * `maxConcurrentStreams` requests at once. h2 is negotiated over TLS, h2c (prior
+ * knowledge) is used for http:// URLs.
+ */
+export type Http2Config = {
+  sessions?: number
+  maxConcurrentStreams?: number
+}
+
+/**
+ * TLS client options: a PEM `ca` bundle to trust, a PEM `cert` and `key` for
+ * mutual TLS, the SNI `servername` and the protocols offered via ALPN
+ */
+export type TlsConfig = {
+  ca?: string
+  cert?: string
+  key?: string
+  rejectUnauthorized?: boolean
+  servername?: string
+  alpnProtocols?: string[]
+}
+
+/**
+ * HTTP forward proxy: the proxy `url` (credentials may be given in it or as `auth`,
+ * `user:password`) and a NO_PROXY-style list of hosts that bypass it
+ */
+export type ProxyConfig = {
+  url: string
+  auth?: string
+  noProxy?: string
+}
+
+/**
+ * Cookie jar: every virtual connection stores the cookies its responses set and
+ * sends them back, starting from the cookies of a Netscape cookie `file` if given
+ */
+export type CookieJarConfig = {
+  file?: string
+}
+
+/**
+ * Stored cookie. A `hostOnly` cookie is only sent to the host that set it; `expires`
+ * is in epoch milliseconds, or null for a session cookie.
+ */
+export type Cookie = {
+  name: string
+  value: string
+  domain: string
+  hostOnly: boolean
+  path: string
+  secure: boolean
+  expires: number | null
+}
+
+/**
+ * What the targets of a staged load profile control
+ */
+export type StageTarget = 'rate' | 'connections'
+
+/**
+ * Order in which a data feeder hands out rows: `sequential` cycles through them,
+ * `random` picks any row each time and `unique` uses each row at most once
+ */
+export type DataOrder = 'sequential' | 'random' | 'unique'
+
+/**
+ * Data feeder: rows from a CSV file (with a header row) or a JSONL file, whose
+ * columns are available to request templates as {{column}}
+ */
+export type DataConfig = {
+  file: string
+  order?: DataOrder
+}
+
+/**
+ * One row of a data file, by column name
+ */
+export type DataRow = Record<string, string>
+
+/**
+ * One endpoint of a weighted request mix. Each request picks an endpoint with
+ * probability proportional to its weight; `url` may be a path relative to the run's URL.
+ */
+export type EndpointConfig = {
+  name?: string
+  url: string
+  method?: HttpMethod
+  headers?: Record<string, string>
+  body?: string | Buffer
+  weight?: number
+}
+
+/**
+ * Checks every response must pass to count as successful. `json` maps JSON paths
+ * (e.g. $.data.ok) to the values they must equal and `headers` lists headers that
+ * must be present. Each failed check is counted in `ErrorBreakdown.assertions`.
+ */
+export type AssertionConfig = {
+  status?: number[]
+  bodyContains?: string
+  bodyMatches?: string
+  json?: Record<string, unknown>
+  headers?: string[]
+  maxBodySize?: number
+}
+
+/**
+ * One stage of a load profile: load moves linearly from the previous stage's
+ * target (or zero) to `target` over `duration` seconds
+ */
+export type LoadStage = {
+  duration: number
+  target: number
+}
+
 /**
  * Benchmark configuration options
  */
@@ -24,13 +154,30 @@ export type BenchConfig = {
   connections?: number
   duration?: number
   rate?: number
+  arrival?: ArrivalConfig
   timeout?: number
   rampUp?: number
+  rampDown?: number
   warmup?: number
-  http2?: boolean
+  stages?: LoadStage[]
+  stageTarget?: StageTarget
+  data?: DataConfig
+  requests?: EndpointConfig[]
+  assertions?: AssertionConfig
+  successStatus?: string
+  pipelining?: number
+  keepAlive?: boolean
+  churn?: number
+  http2?: boolean | Http2Config
+  tls?: TlsConfig
+  socketPath?: string
+  proxy?: string | ProxyConfig
+  proxyFromEnv?: boolean
+  cookies?: boolean | CookieJarConfig
   output?: OutputFormat
   outputFile?: string
   thresholds?: ThresholdConfig
+  histogram?: HistogramConfig
   info?: boolean
   inspect?: boolean
 }
@@ -50,6 +197,17 @@ export type ThresholdConfig = {
   minRps?: number
 }
 
+/**
+ * Latency histogram precision (significant digits, 1-3) and range (max latency in
+ * milliseconds). Memory grows tenfold per digit: at the 1 hour maximum latency a
+ * histogram takes about 2 KB with 1 digit, 13 KB with 2 and 92 KB with 3, and each
+ * worker keeps a dozen or more of them.
+ */
+export type HistogramConfig = {
+  significantDigits?: number
+  maxLatency?: number
+}
+
 /**
  * Latency statistics in milliseconds
  */
@@ -66,6 +224,171 @@ export type LatencyStats = {
   p999: number
 }
 
+/**
+ * Latency of a rate-limited run, measured from the scheduled start time (corrected)
+ * and from the actual send time (uncorrected)
+ */
+export type CoordinatedOmissionStats = {
+  corrected: LatencyStats
+  uncorrected: LatencyStats
+}
+
+/**
+ * Phase of a request's latency: the DNS lookup, TCP connect and TLS handshake of
+ * new connections, then the time to first byte and body download of every request
+ */
+export type TimingPhase = 'dns' | 'connect' | 'tls' | 'ttfb' | 'download'
+
+/**
+ * Latency per phase, null for phases that never occurred (e.g. TLS over plain HTTP)
+ */
+export type TimingStats = Record<TimingPhase, LatencyStats | null>
+
+/**
+ * Latency split into the wait in the client's queue before a request is written to
+ * a connection and the time on the wire after that. A large wait share means the
+ * load generator, not the server, is limiting the run.
+ */
+export type QueueStats = {
+  wait: LatencyStats
+  wire: LatencyStats
+  waitPercent: number
+}
+
+/**
+ * Connection lifecycle over the measured part of the run: connections opened,
+ * requests sent over a connection that had already carried one, and connections
+ * the server closed while the client meant to keep using them
+ */
+export type ConnectionStats = {
+  opened: number
+  reused: number
+  closedByServer: number
+}
+
+/**
+ * Stats for a part of the run reported separately from the steady-state totals
+ */
+export type PhaseStats = {
+  duration: number
+  requests: {
+    total: number
+    successful: number
+    failed: number
+  }
+  latency: LatencyStats
+}
+
+/**
+ * Stats for one stage of a staged load profile
+ */
+export type StageStats = PhaseStats & {
+  target: number
+  throughput: {
+    rps: number
+    bytesPerSecond: number
+  }
+}
+
+/**
+ * Latency percentile an SLO can be set on
+ */
+export type SloPercentile = 'p50' | 'p75' | 'p90' | 'p95' | 'p99' | 'p999'
+
+/**
+ * Latency objective, e.g. p99 below 200ms
+ */
+export type LatencySlo = {
+  percentile: SloPercentile
+  maxLatency: number
+}
+
+/**
+ * Capacity search options
+ */
+export type CapacityConfig = {
+  slo: LatencySlo
+  maxErrorRate?: number
+  startRate?: number
+  maxRate?: number
+  precision?: number
+}
+
+/**
+ * Outcome of one fixed-rate trial in a capacity search
+ */
+export type CapacityTrial = {
+  rate: number
+  rps: number
+  latency: number
+  errorRate: number
+  passed: boolean
+  reason: string | null
+}
+
+/**
+ * Capacity search result: the highest trial rate that met the SLO, if any
+ */
+export type CapacityResult = {
+  url: string
+  slo: LatencySlo
+  maxErrorRate: number
+  capacity: number | null
+  trials: CapacityTrial[]
+}
+
+/**
+ * Scenario steps whose expectations were not met, by expectation
+ */
+export type ExpectationFailures = {
+  status: number
+  maxLatency: number
+  capture: number
+}
+
+/**
+ * Stats for one step of a scenario
+ */
+export type StepStats = {
+  name: string
+  url: string
+  method: HttpMethod
+  requests: {
+    total: number
+    successful: number
+    failed: number
+  }
+  latency: LatencyStats
+  errors: ErrorBreakdown
+  expectations: ExpectationFailures
+}
+
+/**
+ * Stats for one endpoint of a weighted request mix
+ */
+export type EndpointStats = {
+  name: string
+  url: string
+  method: HttpMethod
+  weight: number
+  requests: {
+    total: number
+    successful: number
+    failed: number
+  }
+  latency: LatencyStats
+  errors: ErrorBreakdown
+}
+
+/**
+ * Scenario run stats: completed iterations across all virtual users and per-step stats
+ */
+export type ScenarioStats = {
+  name: string
+  iterations: number
+  steps: StepStats[]
+}
+
 /**
  * Error breakdown by status code
  */
@@ -73,6 +396,7 @@ export type ErrorBreakdown = {
   timeouts: number
   connectionErrors: number
   byStatusCode: Record<number, number>
+  assertions?: Record<string, number>
 }
 
 /**
@@ -84,6 +408,20 @@ export type DevToolsInfo = {
   poweredBy: string | null
   requestId: string | null
   handshakeTime: number | null
+  tls: TlsInfo | null
+}
+
+/**
+ * TLS session negotiated with the target. `resumptionRate` (0-1) is the share of
+ * follow-up handshakes that resumed the first session.
+ */
+export type TlsInfo = {
+  version: string
+  cipher: string
+  alpnProtocol: string | null
+  resumptionRate: number
+  certificateExpiry: string | null
+  certificateDaysLeft: number | null
 }
 
 /**
@@ -95,10 +433,14 @@ export type BenchResult = {
   duration: number
   connections: number
   rate: number | null
+  protocol?: string
+  socketPath?: string
+  successStatus?: string
   requests: {
     total: number
     successful: number
     failed: number
+    missed?: number
   }
   throughput: {
     rps: number
@@ -106,12 +448,22 @@ export type BenchResult = {
     totalBytes: number
   }
   latency: LatencyStats
+  coordinatedOmission?: CoordinatedOmissionStats
+  timings?: TimingStats
+  queue?: QueueStats
+  connectionStats?: ConnectionStats
+  warmup?: PhaseStats
+  ramp?: PhaseStats
+  stages?: StageStats[]
+  scenario?: ScenarioStats
+  endpoints?: EndpointStats[]
   errors: ErrorBreakdown
   timestamp: string
   meta: {
     version: string
     nodeVersion: string
     platform: string
+    proxy?: string
   }
   devtools?: DevToolsInfo
 }
@@ -121,6 +473,8 @@ export type BenchResult = {
  */
 export type WorkerConfig = {
   id: number
+  workerCount: number
+  vuOffset: number
   url: string
   method: HttpMethod
   headers: Record<string, string>
@@ -128,23 +482,72 @@ export type WorkerConfig = {
   connections: number
   duration: number
   rate: number | null
+  arrival: Required<ArrivalConfig> | null
+  rampUp: number
+  rampDown: number
+  warmup: number
+  stages: LoadStage[] | null
+  scenario: ScenarioConfig | null
+  data: { order: DataOrder; rows: DataRow[] } | null
+  endpoints: EndpointConfig[] | null
+  assertions: AssertionConfig | null
+  successStatus: string
   timeout: number
-  http2: boolean
+  pipelining: number
+  keepAlive: boolean
+  churn: number | null
+  http2: Required<Http2Config> | null
+  tls: TlsConfig | null
+  socketPath: string | null
+  proxies: Record<string, ProxyConfig>
+  cookies: Cookie[] | null
+  histogram: Required<HistogramConfig>
 }
 
 /**
- * Metrics snapshot from worker
+ * Metrics covering only the requests completed since the previous delta.
+ * When rate-limited, `histogram` holds latency corrected for coordinated omission and
+ * `uncorrectedHistogram` the latency measured from the actual send time. Histograms
+ * are null when the delta recorded no latency.
  */
-export type MetricsSnapshot = {
-  workerId: number
+export type MetricsDelta = {
   requests: number
   successful: number
   failed: number
   bytes: number
-  latencies: number[]
+  histogram: HistogramData | null
+  uncorrectedHistogram: HistogramData | null
   errors: ErrorBreakdown
 }
 
+/**
+ * Metrics delta for one scenario step
+ */
+export type StepMetricsDelta = MetricsDelta & {
+  expectations: ExpectationFailures
+}
+
+/**
+ * Metrics delta from worker: steady-state metrics plus requests tagged as warmup or ramp
+ * traffic. Staged runs also break the measured requests down per stage, scenario
+ * runs per step and request mixes per endpoint. `timings` holds one histogram per
+ * latency phase, plus queue wait and wire time, `connectionStats` the connection
+ * lifecycle counts and `protocol` the protocol the connections negotiated.
+ */
+export type MetricsSnapshot = MetricsDelta & {
+  workerId: number
+  missed: number
+  iterations: number
+  warmup: MetricsDelta | null
+  ramp: MetricsDelta | null
+  stages: MetricsDelta[] | null
+  steps: StepMetricsDelta[] | null
+  endpoints: MetricsDelta[] | null
+  timings: TimingHistograms | null
+  connectionStats: ConnectionStats
+  protocol: string | null
+}
+
 /**
  * Worker request messages (main -> worker)
  */
@@ -159,6 +562,13 @@ export type WorkerResponse =
   | { type: 'done'; payload: MetricsSnapshot }
   | { type: 'error'; workerId: number; message: string }
 
+/**
+ * Where a scenario step captures a value from: a JSON path into the body
+ * (e.g. $.data.id), a response header, or a regular expression on the body
+ * (its first group, unless `group` is given)
+ */
+export type CaptureSpec = { json: string } | { header: string } | { regex: string; group?: number }
+
 /**
  * Scenario step definition
  */
@@ -173,6 +583,7 @@ export type ScenarioStep = {
     status?: number
     maxLatency?: number
   }
+  capture?: Record<string, CaptureSpec>
 }
 
 /**
@@ -203,3 +614,9 @@ export type HistogramData = {
   max: number
   sum: number
 }
+
+/**
+ * Histograms of the latency phases, queue wait and wire time, in microseconds. A
+ * phase is null when nothing was recorded for it.
+ */
+export type TimingHistograms = Record<TimingPhase | 'queue' | 'wire', HistogramData | null>